@@ -0,0 +1,367 @@
+import { App, RespondFn } from '@slack/bolt';
+import { JiraService } from '../services/jira.service';
+import { ConfluenceService } from '../services/confluence.service';
+import { KBAGeneratorWorkflow } from '../workflows/kba-generator';
+import { KBABatchWorkflow } from '../workflows/kba-batch';
+import { QuotaService } from '../services/quota.service';
+import { describeServiceError } from '../services/http-client';
+import { AuditLog } from '../stores/audit-log';
+import { ConversationContext } from '../types';
+import { UsageStats, summarizeAudit } from '../utils/audit-stats';
+
+const STAGE_LABELS: Record<ConversationContext['stage'], string> = {
+  initial: 'Starting',
+  analyzing: 'Analyzing ticket',
+  confirming_existing: 'Waiting for update / new page decision',
+  choosing_similar: 'Waiting for similar-article decision',
+  asking_questions: 'Waiting for answers',
+  generating: 'Generating draft',
+  review: 'Waiting for review',
+  revising: 'Waiting for change requests',
+  publishing: 'Publishing',
+  complete: 'Published'
+};
+
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_ROWS = 10;
+
+const HELP_TEXT = `*Usage:* \`/kba <subcommand>\`\n\n` +
+  `• \`/kba create <ticket>\` - Start a KBA from a Jira ticket\n` +
+  `• \`/kba batch <JQL>\` - Draft KBAs for every matching ticket into a review queue\n` +
+  `• \`/kba status\` - Show your in-progress KBAs\n` +
+  `• \`/kba list\` - Show recently published KBAs\n` +
+  `• \`/kba cancel <ticket>\` - Cancel one of your drafts\n` +
+  `• \`/kba stats [days]\` - Volume, approval rate, time to publish and estimated spend\n` +
+  `• \`/kba quota\` - Your usage against the generation quotas and budgets\n` +
+  `• \`/kba quota allow|revoke <@user|#channel> [hours]\` - Lift the quotas temporarily (quota admins only)`;
+
+/**
+ * Register the /kba slash command
+ */
+export function registerKBACommand(
+  app: App,
+  workflow: KBAGeneratorWorkflow,
+  batchWorkflow: KBABatchWorkflow,
+  jiraService: JiraService,
+  confluenceService: ConfluenceService,
+  auditLog: AuditLog,
+  quotaService: QuotaService
+): void {
+  app.command('/kba', async ({ command, ack, respond }) => {
+    await ack();
+
+    const [subcommand = '', ...args] = command.text.trim().split(/\s+/);
+    const argText = args.join(' ');
+    const userId = command.user_id;
+
+    try {
+      switch (subcommand.toLowerCase()) {
+        case 'create':
+          await handleCreate(app, workflow, jiraService, command.channel_id, userId, argText, respond);
+          break;
+        case 'batch':
+          await handleBatch(batchWorkflow, command.channel_id, userId, argText, respond);
+          break;
+        case 'status':
+          await handleStatus(workflow, batchWorkflow, userId, respond);
+          break;
+        case 'list':
+          await handleList(confluenceService, respond);
+          break;
+        case 'cancel':
+          await handleCancel(workflow, jiraService, userId, argText, respond);
+          break;
+        case 'stats':
+          await handleStats(auditLog, argText, respond);
+          break;
+        case 'quota':
+          await handleQuota(quotaService, command.channel_id, userId, args, respond);
+          break;
+        default:
+          await respond({ response_type: 'ephemeral', text: HELP_TEXT });
+      }
+    } catch (error: any) {
+      console.error(`Error handling /kba ${subcommand}:`, error);
+      await respond({ response_type: 'ephemeral', text: `:x: Error: ${describeServiceError(error)}` });
+    }
+  });
+}
+
+/**
+ * Extract a ticket key, accepting lowercase keys typed into the command
+ */
+function parseTicketKey(jiraService: JiraService, text: string): string | null {
+  return jiraService.extractTicketKey(text) || jiraService.extractTicketKey(text.toUpperCase());
+}
+
+async function handleCreate(
+  app: App,
+  workflow: KBAGeneratorWorkflow,
+  jiraService: JiraService,
+  channel: string,
+  userId: string,
+  text: string,
+  respond: RespondFn
+): Promise<void> {
+  const ticketKey = parseTicketKey(jiraService, text);
+  if (!ticketKey) {
+    await respond({
+      response_type: 'ephemeral',
+      text: ':x: Please provide a Jira ticket key or URL, e.g. `/kba create PROJ-123`'
+    });
+    return;
+  }
+
+  // Slash commands aren't threaded, so start a thread for the workflow
+  const root = await app.client.chat.postMessage({
+    channel,
+    text: `:wave: <@${userId}> requested a KBA for *${ticketKey}*. I'll work on it in this thread.`
+  });
+  const threadTs = root.ts!;
+
+  const link = await workflow.getThreadLink(channel, threadTs);
+  await respond({
+    response_type: 'ephemeral',
+    text: `:white_check_mark: Started a KBA for *${ticketKey}*${link ? ` - <${link}|open the thread>` : ''}`
+  });
+
+  await workflow.startWorkflow(channel, threadTs, userId, ticketKey);
+}
+
+async function handleBatch(
+  batchWorkflow: KBABatchWorkflow,
+  channel: string,
+  userId: string,
+  jql: string,
+  respond: RespondFn
+): Promise<void> {
+  if (!jql) {
+    await respond({
+      response_type: 'ephemeral',
+      text: ':x: Please provide a JQL query, e.g. `/kba batch project = SUP AND resolution = Done`'
+    });
+    return;
+  }
+
+  // Slack escapes <, > and & in command text
+  const query = jql.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  await batchWorkflow.startBatch(channel, userId, query);
+  await respond({
+    response_type: 'ephemeral',
+    text: ':white_check_mark: Batch started. Progress is shown in the channel and drafts can be reviewed as they are ready.'
+  });
+}
+
+async function handleStatus(
+  workflow: KBAGeneratorWorkflow,
+  batchWorkflow: KBABatchWorkflow,
+  userId: string,
+  respond: RespondFn
+): Promise<void> {
+  const contexts = (await workflow.listContexts())
+    .map(([, context]) => context)
+    .filter(context => context.userId === userId);
+  const batches = (await batchWorkflow.listBatches())
+    .filter(batch => batch.userId === userId);
+
+  if (contexts.length === 0 && batches.length === 0) {
+    await respond({ response_type: 'ephemeral', text: 'You have no KBAs in progress.' });
+    return;
+  }
+
+  const lines: string[] = [];
+  for (const context of contexts) {
+    const link = await workflow.getThreadLink(context.channel, context.threadTs);
+    const ticket = context.jiraTicket ? `*${context.jiraTicket.key}* - ${context.jiraTicket.summary}` : '_Unknown ticket_';
+    lines.push(`• ${ticket}\n   ${STAGE_LABELS[context.stage]}${link ? ` - <${link}|thread>` : ''}`);
+  }
+  for (const batch of batches) {
+    const link = await workflow.getThreadLink(batch.channel, batch.messageTs);
+    const pending = batch.items.filter(item => item.status === 'queued' || item.status === 'pending_review').length;
+    lines.push(`• Batch \`${batch.jql}\`\n   ${pending} of ${batch.items.length} ticket(s) still open${link ? ` - <${link}|progress>` : ''}`);
+  }
+
+  await respond({
+    response_type: 'ephemeral',
+    text: `:clipboard: *Your KBAs in progress*\n\n${lines.join('\n')}`
+  });
+}
+
+async function handleList(
+  confluenceService: ConfluenceService,
+  respond: RespondFn
+): Promise<void> {
+  const pages = await confluenceService.listRecentPages(10);
+
+  if (pages.length === 0) {
+    await respond({ response_type: 'ephemeral', text: 'No published KBAs found.' });
+    return;
+  }
+
+  await respond({
+    response_type: 'ephemeral',
+    text: `:books: *Recently published KBAs*\n\n${pages.map(page => `• <${page.url}|${page.title}>`).join('\n')}`
+  });
+}
+
+async function handleCancel(
+  workflow: KBAGeneratorWorkflow,
+  jiraService: JiraService,
+  userId: string,
+  text: string,
+  respond: RespondFn
+): Promise<void> {
+  const ticketKey = parseTicketKey(jiraService, text);
+  if (!ticketKey) {
+    await respond({
+      response_type: 'ephemeral',
+      text: ':x: Please provide the ticket to cancel, e.g. `/kba cancel PROJ-123`'
+    });
+    return;
+  }
+
+  const matches = (await workflow.listContexts())
+    .filter(([, context]) => context.jiraTicket?.key === ticketKey);
+  const owned = matches.filter(([, context]) => context.userId === userId);
+
+  if (owned.length === 0) {
+    const owners = matches.map(([, context]) => `<@${context.userId}>`).join(', ');
+    await respond({
+      response_type: 'ephemeral',
+      text: matches.length > 0
+        ? `:warning: The draft for *${ticketKey}* belongs to ${owners}. Only they can cancel it.`
+        : `:warning: You have no KBA in progress for *${ticketKey}*.`
+    });
+    return;
+  }
+
+  for (const [contextKey] of owned) {
+    await workflow.cancelKBA(contextKey, userId);
+  }
+
+  await respond({
+    response_type: 'ephemeral',
+    text: `:x: Cancelled ${owned.length} KBA draft(s) for *${ticketKey}*.`
+  });
+}
+
+async function handleStats(
+  auditLog: AuditLog,
+  text: string,
+  respond: RespondFn
+): Promise<void> {
+  const days = text ? parseInt(text, 10) : DEFAULT_STATS_DAYS;
+  if (isNaN(days) || days < 1) {
+    await respond({ response_type: 'ephemeral', text: ':x: Please give a number of days, e.g. `/kba stats 7`' });
+    return;
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const summary = summarizeAudit(await auditLog.read(since));
+
+  if (summary.total.requests === 0 && summary.total.cost === 0) {
+    await respond({ response_type: 'ephemeral', text: `No KBA activity in the last ${days} day(s).` });
+    return;
+  }
+
+  const rows = (stats: Map<string, UsageStats>, label: (key: string) => string) =>
+    Array.from(stats.entries())
+      .sort(([, a], [, b]) => b.requests - a.requests || b.cost - a.cost)
+      .slice(0, MAX_STATS_ROWS)
+      .map(([key, entry]) => `• ${label(key)}: ${formatStats(entry)}`)
+      .join('\n');
+
+  await respond({
+    response_type: 'ephemeral',
+    text: `:bar_chart: *KBA stats for the last ${days} day(s)*\n\n` +
+      `*Overall:* ${formatStats(summary.total)}\n\n` +
+      `*By channel:*\n${rows(summary.byChannel, channel => `<#${channel}>`)}\n\n` +
+      `*By requester:*\n${rows(summary.byUser, user => `<@${user}>`)}`
+  });
+}
+
+async function handleQuota(
+  quotaService: QuotaService,
+  channel: string,
+  userId: string,
+  args: string[],
+  respond: RespondFn
+): Promise<void> {
+  const [action = '', targetText = '', hoursText = ''] = args;
+
+  if (!action) {
+    const lines = await quotaService.describeUsage(userId, channel);
+    await respond({
+      response_type: 'ephemeral',
+      text: lines.length > 0
+        ? `:hourglass: *KBA quotas*\n\n${lines.map(line => `• ${line}`).join('\n')}`
+        : 'No KBA quotas are configured.'
+    });
+    return;
+  }
+
+  if (action !== 'allow' && action !== 'revoke') {
+    await respond({ response_type: 'ephemeral', text: HELP_TEXT });
+    return;
+  }
+
+  if (!quotaService.isAdmin(userId)) {
+    await respond({ response_type: 'ephemeral', text: ':no_entry: Only quota admins can lift quotas.' });
+    return;
+  }
+
+  // Accept escaped mentions (<@U123|name>, <#C123|name>) or raw IDs
+  const target = targetText.match(/^<[@#]([UWC][A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1] ||
+    targetText.match(/^[UWC][A-Z0-9]+$/)?.[0];
+  if (!target) {
+    await respond({
+      response_type: 'ephemeral',
+      text: `:x: Please name a user or channel, e.g. \`/kba quota ${action} @someone${action === 'allow' ? ' 24' : ''}\``
+    });
+    return;
+  }
+  const mention = target.startsWith('C') ? `<#${target}>` : `<@${target}>`;
+
+  if (action === 'revoke') {
+    await quotaService.revokeOverride(target);
+    await respond({ response_type: 'ephemeral', text: `:white_check_mark: Quotas apply to ${mention} again.` });
+    return;
+  }
+
+  const hours = hoursText ? parseFloat(hoursText) : undefined;
+  if (hours !== undefined && (isNaN(hours) || hours <= 0)) {
+    await respond({ response_type: 'ephemeral', text: ':x: Please give the override length in hours, e.g. `24`' });
+    return;
+  }
+
+  const override = await quotaService.grantOverride(target, userId, hours);
+  await respond({
+    response_type: 'ephemeral',
+    text: `:white_check_mark: Quotas are lifted for ${mention} until <!date^${Math.floor(new Date(override.until).getTime() / 1000)}^{date_short_pretty} {time}|${override.until}>.`
+  });
+}
+
+function formatStats(stats: UsageStats): string {
+  const parts = [
+    `${stats.requests} request(s)`,
+    `${stats.drafts} draft(s)`,
+    `${stats.published} published`
+  ];
+  if (stats.approvalRate !== null) {
+    parts.push(`${Math.round(stats.approvalRate * 100)}% approved`);
+  }
+  if (stats.avgTimeToPublishMs !== null) {
+    parts.push(`avg. ${formatDuration(stats.avgTimeToPublishMs)} to publish`);
+  }
+  parts.push(`~$${stats.cost.toFixed(2)} model spend`);
+  return parts.join(' · ');
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.round(hours / 24)}d`;
+}
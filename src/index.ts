@@ -1,9 +1,23 @@
 import { App } from '@slack/bolt';
 import dotenv from 'dotenv';
 import { JiraService } from './services/jira.service';
-import { OpenAIService } from './services/openai.service';
+import { createModelProvider, MODEL_PROVIDER_ENV_VARS } from './services/model-provider';
 import { ConfluenceService } from './services/confluence.service';
+import { SimilarityService } from './services/similarity.service';
+import { RedactionService } from './services/redaction.service';
+import { ApprovalPolicyService } from './services/approval-policy.service';
+import { QuotaOverride, QuotaService } from './services/quota.service';
+import { createPublishers, PUBLISHER_ENV_VARS } from './services/publisher';
 import { KBAGeneratorWorkflow } from './workflows/kba-generator';
+import { KBABatchWorkflow } from './workflows/kba-batch';
+import { createContextStore } from './stores/context-store';
+import { createAuditLog } from './stores/audit-log';
+import { createImageCache } from './stores/image-cache';
+import { registerKBACommand } from './commands/kba.command';
+import { EDIT_MODAL_CALLBACK_ID } from './views/kba-edit-modal';
+import { IMAGE_PROMPT_MODAL_CALLBACK_ID } from './views/image-prompt-modal';
+import { KBABatch } from './types';
+import { ExportFormat } from './utils/kba-export';
 
 // Load environment variables
 dotenv.config();
@@ -19,9 +33,16 @@ const requiredEnvVars = [
   'CONFLUENCE_EMAIL',
   'CONFLUENCE_API_TOKEN',
   'CONFLUENCE_SPACE_KEY',
-  'OPENAI_API_KEY'
+  ...(MODEL_PROVIDER_ENV_VARS[process.env.LLM_PROVIDER || 'openai'] || [])
 ];
 
+// Initialize publishers before checking env, since each needs its own settings
+const confluenceService = new ConfluenceService();
+const publishers = createPublishers(confluenceService);
+for (const name of publishers.keys()) {
+  requiredEnvVars.push(...(PUBLISHER_ENV_VARS[name] || []));
+}
+
 for (const varName of requiredEnvVars) {
   if (!process.env[varName]) {
     console.error(`Error: Missing required environment variable: ${varName}`);
@@ -39,17 +60,75 @@ const app = new App({
 
 // Initialize services
 const jiraService = new JiraService();
-const openaiService = new OpenAIService();
-const confluenceService = new ConfluenceService();
+const modelProvider = createModelProvider();
+const redactionService = new RedactionService();
+const auditLog = createAuditLog();
+const imageCache = createImageCache();
+const quotaService = new QuotaService(
+  auditLog,
+  createContextStore<QuotaOverride>('QUOTA_OVERRIDE_STORE_PATH', 'quota-overrides.json')
+);
 
 // Initialize workflow
 const kbaWorkflow = new KBAGeneratorWorkflow(
   app,
   jiraService,
-  openaiService,
-  confluenceService
+  modelProvider,
+  confluenceService,
+  new SimilarityService(confluenceService),
+  redactionService,
+  new ApprovalPolicyService(app),
+  quotaService,
+  publishers,
+  createContextStore(),
+  auditLog,
+  imageCache
+);
+
+// Initialize batch workflow (JQL-driven generation with a review queue)
+const batchWorkflow = new KBABatchWorkflow(
+  app,
+  jiraService,
+  modelProvider,
+  confluenceService,
+  redactionService,
+  quotaService,
+  kbaWorkflow,
+  createContextStore<KBABatch>('BATCH_STORE_PATH', 'batches.json'),
+  auditLog,
+  imageCache
 );
 
+const IMAGE_CACHE_CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Remove cached images past their retention period, keeping any that an
+ * open draft or batch queue still uses
+ */
+async function cleanImageCache(): Promise<void> {
+  try {
+    const drafts = [
+      ...(await kbaWorkflow.listContexts()).map(([, context]) => context.kbaDraft),
+      ...(await batchWorkflow.listBatches()).flatMap(batch => batch.items.map(item => item.kbaDraft))
+    ];
+    const inUse = new Set(
+      drafts.flatMap(draft => draft?.images || [])
+        .map(image => image.cachedFile)
+        .filter((file): file is string => !!file)
+    );
+
+    const removed = await imageCache.cleanup(inUse);
+    if (removed > 0) {
+      console.log(`Removed ${removed} expired image(s) from the cache`);
+    }
+  } catch (error) {
+    console.error('Failed to clean the image cache:', error);
+  }
+}
+
+const UNRECOVERABLE_DRAFT_TEXT =
+  ':warning: This KBA draft can no longer be recovered (it may have expired or been lost in a restart). Please post the Jira ticket again to start over.';
+
 // Listen for messages containing Jira URLs
 app.message(async ({ message, say }) => {
   // Only process regular messages with text
@@ -70,7 +149,7 @@ app.message(async ({ message, say }) => {
   if (hasJiraUrl || ticketKey) {
     // Check if this is a new request or an answer to a question
     const contextKey = `${channel}-${threadTs}`;
-    const context = kbaWorkflow.getContext(contextKey);
+    const context = await kbaWorkflow.getContext(contextKey);
 
     if (!context) {
       // New KBA generation request
@@ -83,14 +162,19 @@ app.message(async ({ message, say }) => {
     } else if (context.stage === 'asking_questions') {
       // This is an answer to a question
       await kbaWorkflow.handleAnswer(channel, threadTs, userId, text);
+    } else if (context.stage === 'revising') {
+      // This is feedback on the current draft
+      await kbaWorkflow.handleRevision(channel, threadTs, userId, text);
     }
   } else {
     // Check if this is an answer in an active conversation
     const contextKey = `${channel}-${threadTs}`;
-    const context = kbaWorkflow.getContext(contextKey);
+    const context = await kbaWorkflow.getContext(contextKey);
 
     if (context && context.stage === 'asking_questions') {
       await kbaWorkflow.handleAnswer(channel, threadTs, userId, text);
+    } else if (context && context.stage === 'revising') {
+      await kbaWorkflow.handleRevision(channel, threadTs, userId, text);
     }
   }
 });
@@ -109,19 +193,44 @@ app.action('approve_kba', async ({ ack, body, client }) => {
   }
 
   const contextKey: string = action.value;
+  const context = await kbaWorkflow.getContext(contextKey);
+
+  if (!context) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
   const userId = body.user.id;
 
+  // Leave the buttons in place for someone who is allowed to approve
+  const refusal = context.stage !== 'review'
+    ? 'This draft is not waiting for approval right now.'
+    : context.kbaDraft && await kbaWorkflow.approvalRefusal(context.kbaDraft, userId);
+  if (refusal) {
+    await client.chat.postEphemeral({
+      channel: body.channel!.id!,
+      thread_ts: context.threadTs,
+      user: userId,
+      text: `:no_entry: ${refusal}`
+    });
+    return;
+  }
+
   // Update the message to show approval in progress
   await client.chat.update({
     channel: body.channel!.id!,
     ts: body.message!.ts,
-    text: ':hourglass: Publishing KBA to Confluence...',
+    text: ':hourglass: Recording approval...',
     blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: ':hourglass: Publishing KBA to Confluence...'
+          text: `:hourglass: Approved by <@${userId}>...`
         }
       }
     ]
@@ -144,6 +253,16 @@ app.action('request_changes', async ({ ack, body, client }) => {
 
   const contextKey: string = action.value;
 
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
   // Update the message
   await client.chat.update({
     channel: body.channel!.id!,
@@ -177,6 +296,16 @@ app.action('cancel_kba', async ({ ack, body, client }) => {
 
   const contextKey: string = action.value;
 
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
   // Update the message
   await client.chat.update({
     channel: body.channel!.id!,
@@ -193,9 +322,424 @@ app.action('cancel_kba', async ({ ack, body, client }) => {
     ]
   });
 
-  await kbaWorkflow.cancelKBA(contextKey);
+  await kbaWorkflow.cancelKBA(contextKey, body.user.id);
+});
+
+app.action('edit_kba', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'button' || !action.value) {
+    return;
+  }
+
+  const contextKey: string = action.value;
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  await kbaWorkflow.openEditModal(contextKey, body.trigger_id);
+});
+
+// Step controls inside the edit modal
+app.action(/^edit_step_(up|down|delete|add)$/, async ({ ack, body }) => {
+  await ack();
+
+  if (body.type !== 'block_actions' || !body.view) {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'button' || !action.value) {
+    return;
+  }
+
+  const change = action.action_id.replace('edit_step_', '') as 'up' | 'down' | 'delete' | 'add';
+  await kbaWorkflow.updateEditModal(body.view, change, action.value);
 });
 
+app.view(EDIT_MODAL_CALLBACK_ID, async ({ ack, view }) => {
+  await ack();
+  await kbaWorkflow.applyEdits(view);
+});
+
+// Assign a Jira attachment to a step
+app.action('assign_attachment', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'static_select' || !action.selected_option) {
+    return;
+  }
+
+  const [contextKey, attachmentId, stepNumber] = action.selected_option.value.split('|');
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  await kbaWorkflow.assignAttachment(contextKey, attachmentId, parseInt(stepNumber, 10));
+});
+
+// Regenerate, switch, remove or replace one image
+app.action('image_action', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'overflow' || !action.selected_option) {
+    return;
+  }
+
+  const [, contextKey, imageName] = action.block_id.split('|');
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  switch (action.selected_option.value) {
+    case 'regenerate':
+      await kbaWorkflow.regenerateImage(contextKey, body.user.id, imageName);
+      break;
+    case 'prompt':
+      await kbaWorkflow.openImagePromptModal(contextKey, imageName, body.trigger_id);
+      break;
+    case 'switch':
+      await kbaWorkflow.regenerateImage(contextKey, body.user.id, imageName, { switchOS: true });
+      break;
+    case 'replace':
+      await kbaWorkflow.requestImageUpload(contextKey, imageName);
+      break;
+    case 'remove':
+      await kbaWorkflow.removeImage(contextKey, imageName);
+      break;
+  }
+});
+
+app.view(IMAGE_PROMPT_MODAL_CALLBACK_ID, async ({ ack, view, body }) => {
+  await ack();
+  await kbaWorkflow.applyImagePrompt(view, body.user.id);
+});
+
+// Assign a screenshot uploaded to the thread to a step
+app.action('assign_upload', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'static_select' || !action.selected_option) {
+    return;
+  }
+
+  const [contextKey, fileId, stepNumber] = action.selected_option.value.split('|');
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  await kbaWorkflow.assignUpload(contextKey, fileId, parseInt(stepNumber, 10));
+});
+
+// Export the draft as Markdown, HTML or PDF
+app.action('export_kba', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'static_select' || !action.selected_option) {
+    return;
+  }
+
+  const [contextKey, format] = action.selected_option.value.split('|');
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  await kbaWorkflow.exportDraft(contextKey, format as ExportFormat);
+});
+
+// Choose which redacted values are restored on publish
+app.action('restore_redactions', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'checkboxes') {
+    return;
+  }
+
+  const contextKey = action.block_id.split('|')[1];
+  const context = await kbaWorkflow.getContext(contextKey);
+
+  if (!context) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  const refusal = context.kbaDraft && await kbaWorkflow.redactionRefusal(context.kbaDraft, body.user.id);
+  if (refusal) {
+    await client.chat.postEphemeral({
+      channel: body.channel!.id!,
+      thread_ts: context.threadTs,
+      user: body.user.id,
+      text: `:no_entry: ${refusal}`
+    });
+    return;
+  }
+
+  await kbaWorkflow.setRestoredRedactions(
+    contextKey,
+    action.selected_options.map(option => option.value!)
+  );
+});
+
+// Override the template picked from the issue type or project
+app.action('select_template', async ({ ack, body, client }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'static_select' || !action.selected_option) {
+    return;
+  }
+
+  const [contextKey, templateId] = action.selected_option.value.split('|');
+
+  if (!(await kbaWorkflow.getContext(contextKey))) {
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text: UNRECOVERABLE_DRAFT_TEXT,
+      blocks: []
+    });
+    return;
+  }
+
+  await kbaWorkflow.changeTemplate(contextKey, templateId);
+});
+
+// Handle the choice when a KBA already exists for the ticket
+const existingPageChoices: Record<string, { choice: 'update' | 'new' | 'abort'; text: string }> = {
+  existing_kba_update: { choice: 'update', text: ':pencil2: Updating the existing KBA' },
+  existing_kba_new: { choice: 'new', text: ':new: Creating a new KBA page' },
+  existing_kba_abort: { choice: 'abort', text: ':x: KBA generation cancelled' }
+};
+
+for (const [actionId, { choice, text }] of Object.entries(existingPageChoices)) {
+  app.action(actionId, async ({ ack, body, client }) => {
+    await ack();
+
+    if (body.type !== 'block_actions') {
+      return;
+    }
+
+    const action = body.actions[0];
+    if (action.type !== 'button' || !action.value) {
+      return;
+    }
+
+    const contextKey: string = action.value;
+
+    if (!(await kbaWorkflow.getContext(contextKey))) {
+      await client.chat.update({
+        channel: body.channel!.id!,
+        ts: body.message!.ts,
+        text: UNRECOVERABLE_DRAFT_TEXT,
+        blocks: []
+      });
+      return;
+    }
+
+    // Update the message
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text
+          }
+        }
+      ]
+    });
+
+    await kbaWorkflow.resolveExistingPage(contextKey, choice);
+  });
+}
+
+// Handle the choice when similar KBAs exist
+const similarArticleChoices: Record<string, { choice: 'extend' | 'link' | 'new'; text: string }> = {
+  similar_kba_extend: { choice: 'extend', text: ':pencil2: Extending an existing KBA' },
+  similar_kba_link: { choice: 'link', text: ':link: Linking the ticket to an existing KBA' },
+  similar_kba_new: { choice: 'new', text: ':new: Creating a new KBA' }
+};
+
+for (const [actionId, { choice, text }] of Object.entries(similarArticleChoices)) {
+  app.action(actionId, async ({ ack, body, client }) => {
+    await ack();
+
+    if (body.type !== 'block_actions') {
+      return;
+    }
+
+    const action = body.actions[0];
+    if (action.type !== 'button' || !action.value) {
+      return;
+    }
+
+    const [contextKey, pageId] = action.value.split('|');
+
+    if (!(await kbaWorkflow.getContext(contextKey))) {
+      await client.chat.update({
+        channel: body.channel!.id!,
+        ts: body.message!.ts,
+        text: UNRECOVERABLE_DRAFT_TEXT,
+        blocks: []
+      });
+      return;
+    }
+
+    // Update the message
+    await client.chat.update({
+      channel: body.channel!.id!,
+      ts: body.message!.ts,
+      text,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text
+          }
+        }
+      ]
+    });
+
+    await kbaWorkflow.resolveSimilarArticle(contextKey, choice, body.user.id, pageId);
+  });
+}
+
+// Batch review queue controls
+app.action('batch_review', async ({ ack, body }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'button' || !action.value) {
+    return;
+  }
+
+  await batchWorkflow.startReview(action.value);
+});
+
+app.action('batch_cancel', async ({ ack, body }) => {
+  await ack();
+
+  if (body.type !== 'block_actions') {
+    return;
+  }
+
+  const action = body.actions[0];
+  if (action.type !== 'button' || !action.value) {
+    return;
+  }
+
+  await batchWorkflow.cancelBatch(action.value, body.user.id);
+});
+
+const batchDecisions: Record<string, 'approve' | 'reject' | 'skip'> = {
+  batch_approve: 'approve',
+  batch_reject: 'reject',
+  batch_skip: 'skip'
+};
+
+for (const [actionId, decision] of Object.entries(batchDecisions)) {
+  app.action(actionId, async ({ ack, body }) => {
+    await ack();
+
+    if (body.type !== 'block_actions') {
+      return;
+    }
+
+    const action = body.actions[0];
+    if (action.type !== 'button' || !action.value) {
+      return;
+    }
+
+    const [batchId, ticketKey] = action.value.split('|');
+    await batchWorkflow.reviewItem(batchId, ticketKey, decision, body.user.id);
+  });
+}
+
+// Handle the /kba slash command
+registerKBACommand(app, kbaWorkflow, batchWorkflow, jiraService, confluenceService, auditLog, quotaService);
+
 // Handle app mentions
 app.event('app_mention', async ({ event, say }) => {
   if (!event.text || !event.user) {
@@ -225,6 +769,16 @@ app.event('app_mention', async ({ event, say }) => {
   }
 });
 
+// Offer images uploaded to a KBA thread as step screenshots
+app.event('file_shared', async ({ event, context }) => {
+  // The bot's own preview uploads
+  if (event.user_id === context.botUserId) {
+    return;
+  }
+
+  await kbaWorkflow.offerUpload(event.channel_id, event.file_id);
+});
+
 // Start the app
 (async () => {
   try {
@@ -234,7 +788,15 @@ app.event('app_mention', async ({ event, say }) => {
     console.log(`  - Jira: ${process.env.JIRA_HOST}`);
     console.log(`  - Confluence: ${process.env.CONFLUENCE_HOST}`);
     console.log(`  - Space: ${process.env.CONFLUENCE_SPACE_KEY}`);
-    console.log(`  - OpenAI Model: ${process.env.OPENAI_MODEL || 'gpt-4-turbo-preview'}`);
+    console.log(`  - LLM Provider: ${modelProvider.name}`);
+    console.log(`  - Context Store: ${process.env.CONTEXT_STORE || 'file'}`);
+    console.log(`  - Publishers: ${Array.from(publishers.keys()).join(', ')}`);
+
+    await kbaWorkflow.resumeContexts();
+    await batchWorkflow.resumeBatches();
+
+    await cleanImageCache();
+    setInterval(cleanImageCache, IMAGE_CACHE_CLEANUP_INTERVAL_MS).unref();
   } catch (error) {
     console.error('Failed to start app:', error);
     process.exit(1);
@@ -0,0 +1,130 @@
+import { readFileSync } from 'fs';
+import { App } from '@slack/bolt';
+import { envInt } from '../utils/env';
+
+export interface ApprovalPolicy {
+  space: string;
+  approvers: string[]; // Slack user IDs (U/W...) and user group IDs (S...); empty means anyone
+  allowSelfApproval: boolean;
+  requiredApprovals: number;
+}
+
+type PolicyOverrides = Partial<Omit<ApprovalPolicy, 'space'>>;
+
+/**
+ * Who may approve KBAs for a Confluence space, and how many approvals
+ * publishing needs. APPROVAL_* variables set the default; a JSON file at
+ * APPROVAL_POLICY_PATH can override it for the space the bot publishes to
+ * (CONFLUENCE_SPACE_KEY), keyed by space key, e.g.
+ * { "KB": { "approvers": ["S0123ABC"], "allowSelfApproval": false, "requiredApprovals": 2 } }
+ */
+export class ApprovalPolicyService {
+  private defaults: PolicyOverrides;
+  private spaces: Record<string, PolicyOverrides>;
+
+  constructor(private app: App) {
+    this.defaults = {
+      approvers: splitIds(process.env.APPROVAL_APPROVERS || ''),
+      allowSelfApproval: process.env.APPROVAL_ALLOW_SELF !== 'false',
+      requiredApprovals: envInt('APPROVAL_REQUIRED', 1, 1)
+    };
+    this.spaces = this.loadPolicies(process.env.APPROVAL_POLICY_PATH);
+  }
+
+  /**
+   * The policy for a space, falling back to the defaults field by field
+   */
+  policyFor(space: string): ApprovalPolicy {
+    const overrides = this.spaces[space] || {};
+    return {
+      space,
+      approvers: overrides.approvers ?? this.defaults.approvers!,
+      allowSelfApproval: overrides.allowSelfApproval ?? this.defaults.allowSelfApproval!,
+      requiredApprovals: Math.max(1, overrides.requiredApprovals ?? this.defaults.requiredApprovals!)
+    };
+  }
+
+  /**
+   * Why the user may not approve this draft, or null if they may
+   */
+  async refusalReason(
+    policy: ApprovalPolicy,
+    userId: string,
+    requestedBy: string | undefined,
+    approvals: string[]
+  ): Promise<string | null> {
+    if (approvals.includes(userId)) {
+      return 'You have already approved this draft. It needs an approval from someone else.';
+    }
+
+    if (!policy.allowSelfApproval && userId === requestedBy) {
+      return `You requested this KBA, and self-approval is not allowed for the ${policy.space} space.`;
+    }
+
+    if (!(await this.mayApprove(policy, userId))) {
+      return `Only ${this.mentions(policy)} can approve KBAs for the ${policy.space} space.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the user is one of the space's approvers; anyone is when none are configured
+   */
+  async mayApprove(policy: ApprovalPolicy, userId: string): Promise<boolean> {
+    return policy.approvers.length === 0 || this.isApprover(policy, userId);
+  }
+
+  /**
+   * Slack mentions for everyone who can approve, e.g. "<@U123>, <!subteam^S456>"
+   */
+  mentions(policy: ApprovalPolicy): string {
+    return policy.approvers
+      .map(id => id.startsWith('S') ? `<!subteam^${id}>` : `<@${id}>`)
+      .join(', ');
+  }
+
+  private async isApprover(policy: ApprovalPolicy, userId: string): Promise<boolean> {
+    if (policy.approvers.includes(userId)) {
+      return true;
+    }
+
+    for (const groupId of policy.approvers.filter(id => id.startsWith('S'))) {
+      try {
+        const result = await this.app.client.usergroups.users.list({ usergroup: groupId });
+        if (result.users?.includes(userId)) {
+          return true;
+        }
+      } catch (error: any) {
+        console.error(`Failed to list members of user group ${groupId}:`, error.message);
+      }
+    }
+
+    return false;
+  }
+
+  private loadPolicies(policyPath?: string): Record<string, PolicyOverrides> {
+    if (!policyPath) {
+      return {};
+    }
+
+    let policies: Record<string, PolicyOverrides>;
+    try {
+      policies = JSON.parse(readFileSync(policyPath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read approval policies from ${policyPath}: ${error.message}`);
+    }
+
+    for (const [space, policy] of Object.entries(policies)) {
+      const required = policy.requiredApprovals;
+      if (required !== undefined && (!Number.isInteger(required) || required < 1)) {
+        throw new Error(`Invalid requiredApprovals for ${space} in ${policyPath}: ${required}`);
+      }
+    }
+    return policies;
+  }
+}
+
+function splitIds(value: string): string[] {
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
@@ -0,0 +1,53 @@
+import { KBADraft } from '../types';
+import { ConfluenceService } from './confluence.service';
+import { KBAPublisher, PublishOptions, PublishResult } from './publisher';
+
+/**
+ * Publishes to the configured Confluence space, updating the target page
+ * in place when the draft has one
+ */
+export class ConfluencePublisher implements KBAPublisher {
+  readonly name = 'confluence';
+
+  constructor(private confluenceService: ConfluenceService) {}
+
+  async publish(draft: KBADraft, options: PublishOptions): Promise<PublishResult> {
+    const { jiraTicket, content, images, confluencePageId } = draft;
+    const pageOptions = {
+      sourceDescription: jiraTicket.descriptionStorage,
+      sourceComments: jiraTicket.comments,
+      loadImage: options.loadImage,
+      requestedBy: options.requesterName,
+      approvedBy: options.approverName,
+      checkHTML: options.assertNoSecrets
+    };
+
+    if (confluencePageId) {
+      const { url, missingImages } = await this.confluenceService.updateKBAPage(
+        confluencePageId,
+        content,
+        images,
+        jiraTicket.key,
+        {
+          ...pageOptions,
+          versionMessage: `Updated from ${jiraTicket.key} via Slack by ${options.approverName}`
+        }
+      );
+      return { publisher: this.name, url, detail: withMissingImages('page updated', missingImages), confluencePageId };
+    }
+
+    const { url, missingImages } = await this.confluenceService.createKBAPage(content, images, jiraTicket.key, pageOptions);
+    return {
+      publisher: this.name,
+      url,
+      detail: withMissingImages('page created', missingImages),
+      confluencePageId: url.match(/\/pages\/(\d+)/)?.[1]
+    };
+  }
+}
+
+function withMissingImages(detail: string, missing: number[]): string {
+  return missing.length > 0
+    ? `${detail} (screenshots for step(s) ${missing.join(', ')} could not be attached)`
+    : detail;
+}
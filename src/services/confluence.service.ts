@@ -1,17 +1,41 @@
 import axios, { AxiosInstance } from 'axios';
-import { KBAContent, GeneratedImage } from '../types';
+import { KBAContent, GeneratedImage, ConfluencePageRef, JiraComment } from '../types';
+import { getTemplate, sectionText, templateLayout } from '../templates/kba-templates';
+import { imageFilename, imageLabel } from '../utils/kba-export';
+import { createHttpClient, ServiceError, withContext } from './http-client';
+
+export interface PageSearchResult extends ConfluencePageRef {
+  excerpt: string;
+  labels: string[];
+}
+
+export interface KBAPageOptions {
+  versionMessage?: string;
+  sourceDescription?: string; // Ticket description in storage format
+  sourceComments?: JiraComment[]; // Rendered from their storage format body
+  loadImage?: (image: GeneratedImage) => Promise<Buffer | null>; // Overrides downloading image.url
+  requestedBy?: string;
+  approvedBy?: string;
+  checkHTML?: (html: string) => void; // Runs on the final page body and throws to stop publishing
+}
+
+export interface PublishedPage {
+  url: string;
+  missingImages: number[]; // Steps whose screenshots could not be attached
+}
 
 export class ConfluenceService {
   private client: AxiosInstance;
   private spaceKey: string;
   private parentPageId: string;
+  private includeTicketDetails: boolean;
 
   constructor() {
     const auth = Buffer.from(
       `${process.env.CONFLUENCE_EMAIL}:${process.env.CONFLUENCE_API_TOKEN}`
     ).toString('base64');
 
-    this.client = axios.create({
+    this.client = createHttpClient('Confluence', 'CONFLUENCE', {
       baseURL: `${process.env.CONFLUENCE_HOST}/wiki/rest/api`,
       headers: {
         'Authorization': `Basic ${auth}`,
@@ -22,6 +46,7 @@ export class ConfluenceService {
 
     this.spaceKey = process.env.CONFLUENCE_SPACE_KEY || 'ORCAS';
     this.parentPageId = process.env.CONFLUENCE_PARENT_PAGE_ID || '';
+    this.includeTicketDetails = process.env.CONFLUENCE_INCLUDE_TICKET_DETAILS !== 'false';
   }
 
   /**
@@ -30,9 +55,11 @@ export class ConfluenceService {
   async createKBAPage(
     content: KBAContent,
     images: GeneratedImage[],
-    jiraKey: string
-  ): Promise<string> {
-    const pageContent = this.generateConfluenceHTML(content, images, jiraKey);
+    jiraKey: string,
+    options: KBAPageOptions = {}
+  ): Promise<PublishedPage> {
+    const pageContent = this.generateConfluenceHTML(content, images, jiraKey, options);
+    options.checkHTML?.(pageContent);
 
     const page = {
       type: 'page',
@@ -57,17 +84,51 @@ export class ConfluenceService {
     }
 
     try {
-      const response = await this.client.post('/content', page);
-      const pageId = response.data.id;
+      const pageId = await this.postPage(page, jiraKey);
       const pageUrl = `${process.env.CONFLUENCE_HOST}/wiki/spaces/${this.spaceKey}/pages/${pageId}`;
 
       // Upload images as attachments
-      await this.uploadImages(pageId, images);
+      const missingImages = await this.uploadImages(pageId, images, options);
 
-      return pageUrl;
+      return { url: pageUrl, missingImages };
     } catch (error: any) {
-      console.error('Failed to create Confluence page:', error.response?.data || error.message);
-      throw new Error(`Failed to create Confluence page: ${error.message}`);
+      console.error('Failed to create Confluence page:', error.message);
+      throw withContext(error, 'Failed to create Confluence page');
+    }
+  }
+
+  /**
+   * Create a page and return its ID. Confluence refuses a second page with
+   * the same title in a space, so repeating this after a gateway error
+   * can't create a duplicate; if the first attempt went through anyway,
+   * the retry's duplicate-title 400 is answered with the page it created.
+   * A page with that title is only taken as ours if it links this ticket.
+   */
+  private async postPage(page: { title: string }, jiraKey: string): Promise<string> {
+    try {
+      const response = await this.client.post('/content', page, { idempotent: true });
+      return response.data.id;
+    } catch (error: any) {
+      if (!(error instanceof ServiceError && error.status === 400 && error.retried && /title/i.test(error.message))) {
+        throw error;
+      }
+
+      let existing: any;
+      try {
+        const response = await this.client.get('/content', {
+          params: { spaceKey: this.spaceKey, title: page.title, type: 'page', expand: 'body.storage' }
+        });
+        existing = response.data.results?.[0];
+      } catch (lookupError: any) {
+        console.error(`Failed to look up Confluence page "${page.title}":`, lookupError.message);
+      }
+
+      const body: string = existing?.body?.storage?.value || '';
+      if (!existing || !body.includes(`/browse/${jiraKey}"`)) {
+        throw error;
+      }
+      console.warn(`Confluence page "${page.title}" was created by an earlier attempt; using page ${existing.id}`);
+      return existing.id;
     }
   }
 
@@ -77,21 +138,68 @@ export class ConfluenceService {
   private generateConfluenceHTML(
     content: KBAContent,
     images: GeneratedImage[],
-    jiraKey: string
+    jiraKey: string,
+    options: KBAPageOptions = {}
   ): string {
     let html = '';
 
     // Add Jira ticket reference
     html += `<p><strong>Related Jira Ticket:</strong> <a href="${process.env.JIRA_HOST}/browse/${jiraKey}">${jiraKey}</a></p>\n`;
 
-    // Problem section
-    html += `<h2>Problem</h2>\n<p>${this.escapeHTML(content.problem)}</p>\n`;
+    // Who asked for the article and who signed it off
+    const signOff = [
+      options.requestedBy && `<strong>Requested by:</strong> ${this.escapeHTML(options.requestedBy)}`,
+      options.approvedBy && `<strong>Approved by:</strong> ${this.escapeHTML(options.approvedBy)}`
+    ].filter(Boolean);
+    if (signOff.length > 0) {
+      html += `<p>${signOff.join(' | ')}</p>\n`;
+    }
+
+    // Sections in the template's order
+    for (const entry of templateLayout(getTemplate(content.template))) {
+      if (entry.key === 'steps') {
+        html += `<h2>${this.escapeHTML(entry.heading)}</h2>\n`;
+        html += this.generateStepsHTML(content, images);
+        continue;
+      }
+
+      const text = sectionText(content, entry);
+      if (text) {
+        html += `<h2>${this.escapeHTML(entry.heading)}</h2>\n<p>${this.escapeHTML(text)}</p>\n`;
+      }
+    }
+
+    // Original ticket description and comments, collapsed
+    const comments = (options.sourceComments || []).filter(comment => comment.bodyStorage);
+    if (this.includeTicketDetails && (options.sourceDescription || comments.length > 0)) {
+      html += `<ac:structured-macro ac:name="expand">`;
+      html += `<ac:parameter ac:name="title">Original ticket details (${jiraKey})</ac:parameter>`;
+      html += `<ac:rich-text-body>`;
+      if (options.sourceDescription) {
+        html += `<h3>Description</h3>${options.sourceDescription}`;
+      }
+      if (comments.length > 0) {
+        html += `<h3>Comments</h3>`;
+        for (const comment of comments) {
+          html += `<p><strong>${this.escapeHTML(comment.author)}</strong> (${this.escapeHTML((comment.created || '').slice(0, 10))})</p>`;
+          html += comment.bodyStorage;
+        }
+      }
+      html += `</ac:rich-text-body>`;
+      html += `</ac:structured-macro>\n`;
+    }
 
-    // Solution section
-    html += `<h2>Solution</h2>\n<p>${this.escapeHTML(content.solution)}</p>\n`;
+    // Tags section
+    html += `<p><strong>Tags:</strong> ${content.tags.join(', ')}</p>\n`;
 
-    // Steps section
-    html += `<h2>Step-by-Step Instructions</h2>\n`;
+    return html;
+  }
+
+  /**
+   * Steps with their code snippets and screenshots
+   */
+  private generateStepsHTML(content: KBAContent, images: GeneratedImage[]): string {
+    let html = '';
 
     for (const step of content.steps) {
       html += `<h3>Step ${step.stepNumber}</h3>\n`;
@@ -107,58 +215,88 @@ export class ConfluenceService {
       // Add image placeholder (will be replaced after upload)
       const stepImages = images.filter(img => img.stepNumber === step.stepNumber);
       for (const image of stepImages) {
-        html += `<p><strong>${image.osType === 'mac' ? 'macOS' : 'Windows'}:</strong></p>\n`;
-        html += `<p><ac:image><ri:attachment ri:filename="step-${step.stepNumber}-${image.osType}.png" /></ac:image></p>\n`;
+        html += `<p><strong>${imageLabel(image)}:</strong></p>\n`;
+        html += `<p><ac:image><ri:attachment ri:filename="${imageFilename(image)}" /></ac:image></p>\n`;
       }
     }
 
-    // Additional notes section
-    if (content.additionalNotes) {
-      html += `<h2>Additional Notes</h2>\n<p>${this.escapeHTML(content.additionalNotes)}</p>\n`;
-    }
-
-    // Tags section
-    html += `<p><strong>Tags:</strong> ${content.tags.join(', ')}</p>\n`;
-
     return html;
   }
 
   /**
-   * Upload images as attachments to the Confluence page
+   * Upload images as attachments to the Confluence page. Returns the steps
+   * whose images could not be loaded or uploaded.
    */
-  private async uploadImages(pageId: string, images: GeneratedImage[]): Promise<void> {
+  private async uploadImages(
+    pageId: string,
+    images: GeneratedImage[],
+    options: KBAPageOptions = {},
+    replaceExisting: boolean = false
+  ): Promise<number[]> {
+    const missing: number[] = [];
     for (const image of images) {
       try {
-        // Download the image from OpenAI URL
-        const imageResponse = await axios.get(image.url, {
-          responseType: 'arraybuffer'
-        });
+        let imageBuffer = options.loadImage ? await options.loadImage(image) : null;
+
+        if (!imageBuffer) {
+          // Download the image from OpenAI URL
+          const imageResponse = await axios.get(image.url, {
+            responseType: 'arraybuffer'
+          });
+          imageBuffer = Buffer.from(imageResponse.data);
+        }
 
-        const imageBuffer = Buffer.from(imageResponse.data);
-        const filename = `step-${image.stepNumber}-${image.osType}.png`;
+        const filename = imageFilename(image);
 
         // Upload to Confluence
         const formData = new FormData();
-        const blob = new Blob([imageBuffer], { type: 'image/png' });
+        const blob = new Blob([imageBuffer], { type: image.mimeType || 'image/png' });
         formData.append('file', blob, filename);
 
-        await this.client.post(
-          `/content/${pageId}/child/attachment`,
-          formData,
-          {
-            headers: {
-              'X-Atlassian-Token': 'no-check',
-              'Content-Type': 'multipart/form-data'
-            }
+        // PUT creates the attachment or adds a new version of an existing one
+        await this.client.request({
+          method: replaceExisting ? 'put' : 'post',
+          url: `/content/${pageId}/child/attachment`,
+          data: formData,
+          headers: {
+            'X-Atlassian-Token': 'no-check',
+            'Content-Type': 'multipart/form-data'
           }
-        );
+        });
 
         console.log(`Uploaded image: ${filename}`);
       } catch (error: any) {
         console.error(`Failed to upload image for step ${image.stepNumber}:`, error.message);
         // Continue with other images even if one fails
+        if (!missing.includes(image.stepNumber)) {
+          missing.push(image.stepNumber);
+        }
       }
     }
+    return missing;
+  }
+
+  /**
+   * Delete step screenshots that are no longer part of the KBA
+   */
+  private async removeStaleImages(pageId: string, images: GeneratedImage[]): Promise<void> {
+    const keep = new Set(images.map(image => imageFilename(image)));
+
+    try {
+      const response = await this.client.get(`/content/${pageId}/child/attachment`, {
+        params: { limit: 200 }
+      });
+
+      for (const attachment of response.data.results || []) {
+        const title: string = attachment.title || '';
+        if (/^step-\d+-(mac|windows|attachment-.+|upload-.+)\.\w+$/.test(title) && !keep.has(title)) {
+          await this.client.delete(`/content/${attachment.id}`);
+          console.log(`Removed stale image: ${title}`);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Failed to clean up attachments on page ${pageId}:`, error.message);
+    }
   }
 
   /**
@@ -168,18 +306,21 @@ export class ConfluenceService {
     pageId: string,
     content: KBAContent,
     images: GeneratedImage[],
-    jiraKey: string
-  ): Promise<string> {
+    jiraKey: string,
+    options: KBAPageOptions = {}
+  ): Promise<PublishedPage> {
     try {
       // Get current page version
       const currentPage = await this.client.get(`/content/${pageId}`);
       const currentVersion = currentPage.data.version.number;
 
-      const pageContent = this.generateConfluenceHTML(content, images, jiraKey);
+      const pageContent = this.generateConfluenceHTML(content, images, jiraKey, options);
+      options.checkHTML?.(pageContent);
 
       const updateData = {
         version: {
-          number: currentVersion + 1
+          number: currentVersion + 1,
+          message: options.versionMessage || `Updated from ${jiraKey}`
         },
         title: content.title,
         type: 'page',
@@ -193,28 +334,34 @@ export class ConfluenceService {
 
       await this.client.put(`/content/${pageId}`, updateData);
 
-      // Upload new images
-      await this.uploadImages(pageId, images);
+      // Replace step screenshots instead of piling new ones on top
+      await this.removeStaleImages(pageId, images);
+      const missingImages = await this.uploadImages(pageId, images, options, true);
 
-      return `${process.env.CONFLUENCE_HOST}/wiki/spaces/${this.spaceKey}/pages/${pageId}`;
+      return { url: this.getPageUrl(pageId), missingImages };
     } catch (error: any) {
-      console.error('Failed to update Confluence page:', error.response?.data || error.message);
-      throw new Error(`Failed to update Confluence page: ${error.message}`);
+      console.error('Failed to update Confluence page:', error.message);
+      throw withContext(error, 'Failed to update Confluence page');
     }
   }
 
   /**
    * Search for existing KBA pages by Jira ticket key
    */
-  async findPageByJiraKey(jiraKey: string): Promise<string | null> {
+  async findPageByJiraKey(jiraKey: string): Promise<ConfluencePageRef | null> {
     try {
-      const cql = `space="${this.spaceKey}" AND text~"${jiraKey}"`;
+      const cql = `space="${this.spaceKey}" AND type=page AND text~"${jiraKey}"`;
       const response = await this.client.get('/content/search', {
         params: { cql, limit: 10 }
       });
 
       if (response.data.results.length > 0) {
-        return response.data.results[0].id;
+        const page = response.data.results[0];
+        return {
+          id: page.id,
+          title: page.title,
+          url: this.getPageUrl(page.id)
+        };
       }
 
       return null;
@@ -224,6 +371,96 @@ export class ConfluenceService {
     }
   }
 
+  /**
+   * Find pages in the space whose title, text or labels match any of the
+   * given keywords or labels. Ranking is left to the caller.
+   */
+  async searchPages(keywords: string[], labels: string[], limit: number = 25): Promise<PageSearchResult[]> {
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '')}"`;
+    const clauses = [
+      ...keywords.map(word => `title~${quote(word)} OR text~${quote(word)}`),
+      ...(labels.length > 0 ? [`label in (${labels.map(quote).join(',')})`] : [])
+    ];
+    if (clauses.length === 0) {
+      return [];
+    }
+
+    const cql = `space="${this.spaceKey}" AND type=page AND (${clauses.join(' OR ')})`;
+
+    try {
+      const response = await this.client.get('/search', {
+        params: { cql, limit, expand: 'content.metadata.labels' }
+      });
+
+      return response.data.results
+        .filter((result: any) => result.content?.id)
+        .map((result: any) => ({
+          id: result.content.id,
+          title: result.content.title || result.title,
+          url: this.getPageUrl(result.content.id),
+          // Excerpts carry search highlight markers
+          excerpt: (result.excerpt || '').replace(/@@@(end)?hl@@@/g, '').trim(),
+          labels: (result.content.metadata?.labels?.results || []).map((label: any) => label.name)
+        }));
+    } catch (error: any) {
+      console.error('Failed to search for similar pages:', error.message);
+      throw withContext(error, 'Failed to search Confluence');
+    }
+  }
+
+  /**
+   * Fetch a page's body as plain text
+   */
+  async getPageText(pageId: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/content/${pageId}`, {
+        params: { expand: 'body.storage' }
+      });
+
+      return (response.data.body?.storage?.value || '')
+        .replace(/<ac:image[\s\S]*?<\/ac:image>/g, '')
+        .replace(/<\/(p|h\d|li|tr)>|<br\s*\/?>/g, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    } catch (error: any) {
+      console.error('Failed to fetch page body:', error.message);
+      throw withContext(error, `Failed to fetch Confluence page ${pageId}`);
+    }
+  }
+
+  /**
+   * List the most recently created KBA pages in the space
+   */
+  async listRecentPages(limit: number = 10): Promise<ConfluencePageRef[]> {
+    let cql = `space="${this.spaceKey}" AND type=page`;
+    if (this.parentPageId) {
+      cql += ` AND ancestor=${this.parentPageId}`;
+    }
+    cql += ' ORDER BY created DESC';
+
+    try {
+      const response = await this.client.get('/content/search', {
+        params: { cql, limit }
+      });
+
+      return response.data.results.map((page: any) => ({
+        id: page.id,
+        title: page.title,
+        url: this.getPageUrl(page.id)
+      }));
+    } catch (error: any) {
+      console.error('Failed to list recent pages:', error.message);
+      throw withContext(error, 'Failed to list Confluence pages');
+    }
+  }
+
   /**
    * Escape HTML special characters
    */
@@ -237,6 +474,13 @@ export class ConfluenceService {
       .replace(/\n/g, '<br/>');
   }
 
+  /**
+   * The space pages are created in, searched and updated
+   */
+  getSpaceKey(): string {
+    return this.spaceKey;
+  }
+
   /**
    * Get page URL by ID
    */
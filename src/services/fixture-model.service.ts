@@ -0,0 +1,98 @@
+import { JiraTicket, KBAContent } from '../types';
+import { ImageGenerationResult, KBAGenerationOptions, KBAModelProvider } from './model-provider';
+import { SKIPPED_ANSWER } from '../utils/answer-parser';
+
+/**
+ * Deterministic model provider for offline runs and demos.
+ * Builds the KBA straight from the ticket without calling any model.
+ */
+export class FixtureModelService implements KBAModelProvider {
+  readonly name = 'fixture';
+
+  /**
+   * Always ask the same questions
+   */
+  async generateClarifyingQuestions(ticket: JiraTicket): Promise<string[]> {
+    return [
+      `What was the root cause of ${ticket.key}?`,
+      'Did this affect Mac users, Windows users, or both?'
+    ];
+  }
+
+  /**
+   * Never ask follow-ups offline
+   */
+  async generateFollowUpQuestions(
+    _ticket: JiraTicket,
+    _userAnswers: Record<string, string>
+  ): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Assemble a KBA from the ticket fields and answers
+   */
+  async generateKBAContent(
+    ticket: JiraTicket,
+    userAnswers: Record<string, string>,
+    options: KBAGenerationOptions = {}
+  ): Promise<KBAContent> {
+    const answers = Object.values(userAnswers).filter(a => a.trim().length > 0 && a !== SKIPPED_ANSWER);
+    const firstParagraph = ticket.description.split('\n').find(line => line.trim().length > 0);
+    const lastComment = ticket.comments && ticket.comments.length > 0
+      ? ticket.comments[ticket.comments.length - 1].body
+      : undefined;
+
+    const stepSources = answers.length > 0
+      ? answers
+      : ['Review the symptoms described in the ticket', 'Apply the resolution', 'Confirm the issue is resolved'];
+
+    const content: KBAContent = {
+      title: `How to resolve: ${ticket.summary}`,
+      problem: firstParagraph || ticket.summary,
+      solution: ticket.resolution
+        ? `Resolved as "${ticket.resolution}". ${lastComment || ''}`.trim()
+        : lastComment || 'Follow the steps below.',
+      steps: stepSources.map((description, index) => ({
+        stepNumber: index + 1,
+        description
+      })),
+      additionalNotes: `Generated offline from ${ticket.key} without a language model.`,
+      tags: Array.from(new Set([
+        ticket.key.split('-')[0].toLowerCase(),
+        ticket.issueType.toLowerCase()
+      ].filter(tag => tag.length > 0)))
+    };
+
+    const template = options.template;
+    if (template && template.sections.length > 0) {
+      content.template = template.id;
+      content.sections = Object.fromEntries(
+        template.sections.map(section => [section.key, `${section.heading}: see ${ticket.key}.`])
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * Record the feedback in the notes so the revision is visible
+   */
+  async refineKBAContent(
+    originalContent: KBAContent,
+    feedback: string
+  ): Promise<KBAContent> {
+    const notes = originalContent.additionalNotes ? `${originalContent.additionalNotes}\n\n` : '';
+    return {
+      ...originalContent,
+      additionalNotes: `${notes}Reviewer feedback: ${feedback}`
+    };
+  }
+
+  /**
+   * No image model offline
+   */
+  async generateImages(_content: KBAContent): Promise<ImageGenerationResult> {
+    return { images: [], failures: [] };
+  }
+}
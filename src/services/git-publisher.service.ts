@@ -0,0 +1,111 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { KBADraft } from '../types';
+import { KBAPublisher, PublishOptions, PublishResult } from './publisher';
+import { imageFilename, renderMarkdown } from '../utils/kba-export';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Writes each KBA as Markdown into a local Git checkout and commits it.
+ * Every ticket gets its own folder, so re-publishing replaces the files.
+ */
+export class GitPublisher implements KBAPublisher {
+  readonly name = 'git';
+  private repoPath: string;
+  private directory: string;
+  private push: boolean;
+  private urlTemplate: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.repoPath = process.env.GIT_PUBLISH_REPO_PATH || '';
+    this.directory = process.env.GIT_PUBLISH_DIR || 'kba';
+    this.push = process.env.GIT_PUBLISH_PUSH === 'true';
+    // e.g. https://github.com/acme/kb/blob/{commit}/{path}
+    this.urlTemplate = process.env.GIT_PUBLISH_URL_TEMPLATE || '';
+  }
+
+  /**
+   * Publishes share one working tree, so run them one at a time
+   */
+  publish(draft: KBADraft, options: PublishOptions): Promise<PublishResult> {
+    const run = () => this.commitDraft(draft, options);
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async commitDraft(draft: KBADraft, options: PublishOptions): Promise<PublishResult> {
+    if (!this.repoPath) {
+      throw new Error('GIT_PUBLISH_REPO_PATH is not set');
+    }
+
+    const { jiraTicket, content, images } = draft;
+    const markdown = renderMarkdown(draft);
+    options.assertNoSecrets(markdown);
+
+    const folder = path.posix.join(this.directory, jiraTicket.key);
+    const absoluteFolder = path.join(this.repoPath, folder);
+
+    // Start clean so screenshots of removed steps don't linger
+    await fs.rm(absoluteFolder, { recursive: true, force: true });
+    await fs.mkdir(absoluteFolder, { recursive: true });
+
+    const articlePath = path.posix.join(folder, 'README.md');
+    await fs.writeFile(path.join(this.repoPath, articlePath), markdown, 'utf8');
+
+    const missing: number[] = [];
+    for (const image of images) {
+      const data = await options.loadImage(image);
+      if (data) {
+        await fs.writeFile(path.join(absoluteFolder, imageFilename(image)), data);
+      } else {
+        missing.push(image.stepNumber);
+      }
+    }
+
+    await this.git('add', '--all', '--', folder);
+
+    const staged = await this.git('diff', '--cached', '--name-only', '--', folder);
+    if (staged.trim().length > 0) {
+      // Only the article's folder, even if something else is staged in the checkout
+      await this.git(
+        'commit',
+        '-m', `Publish KBA for ${jiraTicket.key}: ${content.title}`,
+        '-m', options.requesterName
+          ? `Requested by ${options.requesterName}, approved by ${options.approverName} via Slack.`
+          : `Approved by ${options.approverName} via Slack.`,
+        '--', folder
+      );
+    }
+    // Also when nothing changed, so a commit whose push failed last time still reaches the remote
+    if (this.push) {
+      await this.git('push');
+    }
+
+    const commit = (await this.git('rev-parse', '--short', 'HEAD')).trim();
+    const detail = staged.trim().length > 0 ? `commit ${commit}` : `unchanged at ${commit}`;
+
+    return {
+      publisher: this.name,
+      url: this.urlTemplate
+        ? this.urlTemplate.replace('{commit}', commit).replace('{path}', articlePath)
+        : undefined,
+      detail: missing.length > 0
+        ? `${detail} (screenshots for step(s) ${missing.join(', ')} could not be downloaded)`
+        : detail
+    };
+  }
+
+  private async git(...args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.repoPath });
+      return stdout;
+    } catch (error: any) {
+      throw new Error(`git ${args[0]} failed: ${(error.stderr || error.message).trim()}`);
+    }
+  }
+}
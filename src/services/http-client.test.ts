@@ -0,0 +1,119 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AuthenticationError, RateLimitError, ServiceError, ServiceUnavailableError, createHttpClient
+} from './http-client';
+
+let statuses: number[] = [];
+let received: string[] = [];
+
+/**
+ * A local server that answers each request with the next status in the
+ * queue (200 once it is empty) and counts the requests it received
+ */
+const server = http.createServer((request, response) => {
+  received.push(`${request.method} ${request.url}`);
+  const status = statuses.shift() || 200;
+  response.writeHead(status, { 'Content-Type': 'application/json', ...(status === 429 ? { 'Retry-After': '0' } : {}) });
+  response.end(JSON.stringify(status === 200 ? { ok: true } : { errorMessages: [`Failed with ${status}`] }));
+});
+
+async function client(settings: Record<string, string> = {}) {
+  if (!server.listening) {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  }
+  Object.assign(process.env, { HTTP_MAX_RETRIES: '2', HTTP_BREAKER_THRESHOLD: '5', HTTP_BREAKER_COOLDOWN_MS: '30000' }, settings);
+  statuses = [];
+  received = [];
+  const { port } = server.address() as AddressInfo;
+  return createHttpClient('Jira', 'JIRA', { baseURL: `http://127.0.0.1:${port}` });
+}
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('idempotent requests are retried after gateway errors', async () => {
+  const jira = await client();
+  statuses = [503, 502];
+
+  const response = await jira.get('/issue');
+  assert.deepEqual(response.data, { ok: true });
+  assert.equal(received.length, 3);
+});
+
+test('the last error is thrown once the retries are used up', async () => {
+  const jira = await client();
+  statuses = [503, 503, 503, 503];
+
+  await assert.rejects(jira.get('/issue'), (error: ServiceError) => {
+    assert.ok(error instanceof ServiceUnavailableError);
+    assert.equal(error.message, 'Jira returned HTTP 503: Failed with 503');
+    assert.equal(error.retried, true);
+    return true;
+  });
+  assert.equal(received.length, 3);
+});
+
+test('POSTs are only retried when marked idempotent', async () => {
+  const jira = await client();
+  statuses = [503];
+  await assert.rejects(jira.post('/comment', {}), ServiceUnavailableError);
+  assert.equal(received.length, 1);
+
+  statuses = [503];
+  await jira.post('/content', {}, { idempotent: true });
+  assert.equal(received.length, 3);
+});
+
+test('rate-limited requests are retried whatever their method', async () => {
+  const jira = await client();
+  statuses = [429];
+  await jira.post('/comment', {});
+  assert.equal(received.length, 2);
+
+  statuses = [429, 429, 429];
+  await assert.rejects(jira.post('/comment', {}), RateLimitError);
+});
+
+test('client errors are not retried and keep their type', async () => {
+  const jira = await client();
+  statuses = [401];
+
+  await assert.rejects(jira.get('/myself'), (error: ServiceError) => {
+    assert.ok(error instanceof AuthenticationError);
+    assert.equal(error.status, 401);
+    assert.deepEqual(error.details, ['Failed with 401']);
+    assert.equal(error.retried, false);
+    return true;
+  });
+  assert.equal(received.length, 1);
+});
+
+test('the circuit opens after repeated outages and closes after the cooldown', async () => {
+  const jira = await client({ HTTP_MAX_RETRIES: '0', HTTP_BREAKER_THRESHOLD: '2', HTTP_BREAKER_COOLDOWN_MS: '200' });
+  statuses = [503, 503];
+  await assert.rejects(jira.get('/issue'), ServiceUnavailableError);
+  await assert.rejects(jira.get('/issue'), ServiceUnavailableError);
+
+  await assert.rejects(jira.get('/issue'), { message: 'Jira is unreachable (circuit open)' });
+  assert.equal(received.length, 2);
+
+  await new Promise(resolve => setTimeout(resolve, 250));
+  await jira.get('/issue');
+  assert.equal(received.length, 3);
+});
+
+test('a refused request does not count as an outage', async () => {
+  const jira = await client({ HTTP_MAX_RETRIES: '0', HTTP_BREAKER_THRESHOLD: '2' });
+  statuses = [503, 400, 503];
+  for (let i = 0; i < 3; i++) {
+    await assert.rejects(jira.get('/issue'), ServiceError);
+  }
+
+  await jira.get('/issue');
+  assert.equal(received.length, 4);
+});
@@ -0,0 +1,286 @@
+import http from 'http';
+import https from 'https';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, CreateAxiosDefaults } from 'axios';
+import { envInt } from '../utils/env';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    idempotent?: boolean; // Set on POSTs that are safe to repeat after a network or gateway error
+    attempt?: number; // Retries made so far, set by the client
+  }
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const GATEWAY_STATUSES = [502, 503, 504];
+const NETWORK_ERROR_CODES = [
+  'ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'
+];
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+const MAX_RETRY_AFTER_MS = 60000; // Longer waits are reported instead of keeping the user waiting
+const MAX_SOCKETS = 10;
+
+/**
+ * A failed call to Jira or Confluence. The subclasses say why, so callers
+ * can branch on the type instead of parsing messages.
+ */
+export class ServiceError extends Error {
+  retried = false; // The request had already been retried at least once
+
+  constructor(
+    public service: string,
+    message: string,
+    public status?: number,
+    public details: string[] = [] // Messages from the Atlassian response body
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * Network error, timeout, gateway error or an open circuit
+ */
+export class ServiceUnavailableError extends ServiceError {
+  constructor(service: string, message: string, status?: number) {
+    super(service, message, status);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  constructor(service: string, message: string, public retryAfterMs?: number) {
+    super(service, message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 401 or 403: the API token is wrong, expired or lacks a permission
+ */
+export class AuthenticationError extends ServiceError {
+  constructor(service: string, message: string, status: number, details: string[] = []) {
+    super(service, message, status, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(service: string, message: string, details: string[] = []) {
+    super(service, message, 404, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Fails calls fast after repeated outages instead of letting every
+ * request wait for its timeout. After the cooldown requests go through
+ * again; the first one that fails reopens the circuit.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  isOpen(): boolean {
+    return this.openedAt !== undefined && Date.now() - this.openedAt < this.cooldownMs;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * An axios instance with timeouts, keep-alive connections, retries with
+ * jitter and a circuit breaker. Errors are rethrown as ServiceError
+ * subclasses. `envPrefix` picks up a per-service timeout, e.g.
+ * JIRA_TIMEOUT_MS, falling back to HTTP_TIMEOUT_MS.
+ */
+export function createHttpClient(service: string, envPrefix: string, config: CreateAxiosDefaults): AxiosInstance {
+  const timeout = envInt(`${envPrefix}_TIMEOUT_MS`, envInt('HTTP_TIMEOUT_MS', 15000, 1), 1);
+  const maxRetries = envInt('HTTP_MAX_RETRIES', 3, 0);
+  const breaker = new CircuitBreaker(
+    envInt('HTTP_BREAKER_THRESHOLD', 5, 1),
+    envInt('HTTP_BREAKER_COOLDOWN_MS', 30000, 0)
+  );
+
+  const client = axios.create({
+    timeout,
+    httpAgent: new http.Agent({ keepAlive: true, maxSockets: MAX_SOCKETS }),
+    httpsAgent: new https.Agent({ keepAlive: true, maxSockets: MAX_SOCKETS }),
+    ...config
+  });
+
+  client.interceptors.request.use(request => {
+    if (breaker.isOpen()) {
+      throw new ServiceUnavailableError(service, `${service} is unreachable (circuit open)`);
+    }
+    return request;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: any) => {
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      const request: AxiosRequestConfig | undefined = error.config;
+      const attempt = request?.attempt || 0;
+      const delay = request && attempt < maxRetries ? retryDelayMs(error, request, attempt) : undefined;
+      if (request && delay !== undefined) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return client.request({ ...request, attempt: attempt + 1 });
+      }
+
+      const serviceError = toServiceError(service, error);
+      serviceError.retried = attempt > 0;
+      if (serviceError instanceof ServiceUnavailableError) {
+        breaker.recordFailure();
+      } else if (error.response) {
+        // The service answered, so it's up even if it refused the request
+        breaker.recordSuccess();
+      }
+      throw serviceError;
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Prefix an error with what was being done, keeping its type so callers
+ * can still branch on it
+ */
+export function withContext(error: any, context: string): Error {
+  if (error instanceof ServiceError) {
+    error.message = `${context}: ${error.message}`;
+    return error;
+  }
+  return new Error(`${context}: ${error.message}`);
+}
+
+/**
+ * What to tell a Slack user about an error, as a phrase without a final period
+ */
+export function describeServiceError(error: any): string {
+  if (error instanceof ServiceUnavailableError) {
+    return `${error.service} is currently unreachable - please try again in a few minutes`;
+  }
+  if (error instanceof RateLimitError) {
+    return `${error.service} is rate limiting requests - please try again in a minute`;
+  }
+  if (error instanceof AuthenticationError) {
+    return `${error.service} rejected the bot's credentials - ask an admin to check the API token and its permissions`;
+  }
+  return error.message;
+}
+
+/**
+ * How long to wait before retrying, or undefined if the request shouldn't
+ * be retried. Rate-limited requests were not processed, so any method can
+ * be retried; otherwise only idempotent ones are, since the request may
+ * have gone through before the connection failed.
+ */
+function retryDelayMs(error: AxiosError, request: AxiosRequestConfig, attempt: number): number | undefined {
+  const status = error.response?.status;
+
+  if (status === 429) {
+    const retryAfter = retryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : undefined;
+    }
+    return backoffMs(attempt);
+  }
+
+  const transient = status !== undefined
+    ? GATEWAY_STATUSES.includes(status)
+    : NETWORK_ERROR_CODES.includes(error.code || '');
+  const idempotent = request.idempotent || IDEMPOTENT_METHODS.includes((request.method || 'get').toLowerCase());
+
+  return transient && idempotent ? backoffMs(attempt) : undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+}
+
+function retryAfterMs(error: AxiosError): number | undefined {
+  const value = error.response?.headers?.['retry-after'];
+  if (!value) {
+    return undefined;
+  }
+  const seconds = parseFloat(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function toServiceError(service: string, error: any): ServiceError {
+  const response = error.response;
+  if (!response) {
+    const message = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+      ? `${service} did not respond in time`
+      : `Could not reach ${service}: ${error.message}`;
+    return NETWORK_ERROR_CODES.includes(error.code)
+      ? new ServiceUnavailableError(service, message)
+      : new ServiceError(service, `${service} request failed: ${error.message}`);
+  }
+
+  const status: number = response.status;
+  const details = atlassianMessages(response.data);
+  const message = `${service} returned HTTP ${status}${details.length > 0 ? `: ${details.join(' ')}` : ''}`;
+
+  if (status === 429) {
+    return new RateLimitError(service, message, retryAfterMs(error));
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(service, message, status, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(service, message, details);
+  }
+  if (GATEWAY_STATUSES.includes(status)) {
+    return new ServiceUnavailableError(service, message, status);
+  }
+  return new ServiceError(service, message, status, details);
+}
+
+/**
+ * Error messages from Jira ({ errorMessages, errors }) and Confluence ({ message }) bodies
+ */
+function atlassianMessages(data: any): string[] {
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+
+  const messages: string[] = [];
+  if (Array.isArray(data.errorMessages)) {
+    messages.push(...data.errorMessages.filter((m: any) => typeof m === 'string'));
+  }
+  if (data.errors && typeof data.errors === 'object' && !Array.isArray(data.errors)) {
+    messages.push(...Object.entries(data.errors).map(([field, m]) => `${field}: ${m}`));
+  }
+  if (typeof data.message === 'string') {
+    messages.push(data.message);
+  }
+  return messages;
+}
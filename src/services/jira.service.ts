@@ -1,15 +1,37 @@
-import axios, { AxiosInstance } from 'axios';
-import { JiraTicket, JiraComment } from '../types';
+import { AxiosInstance } from 'axios';
+import {
+  JiraTicket,
+  JiraComment,
+  JiraAttachment,
+  JiraAttachmentText,
+  JiraRelatedIssue,
+  JiraChangelogEntry
+} from '../types';
+import { adfToMarkdown, adfToStorage } from '../utils/adf';
+import { envInt } from '../utils/env';
+import { NotFoundError, ServiceError, createHttpClient, withContext } from './http-client';
+
+// History fields that explain how a ticket was escalated and resolved
+const CHANGELOG_FIELDS = ['status', 'assignee', 'priority', 'resolution'];
+
+const TEXT_ATTACHMENT_EXTENSIONS = /\.(log|txt|conf|cfg|ini|json|ya?ml|xml|csv|out|err|properties|env|sh|ps1)$/i;
 
 export class JiraService {
   private client: AxiosInstance;
+  private attachmentTextLimit: number;
+  private attachmentTextTotal: number;
+  private attachmentMaxBytes: number;
+  private relatedDepth: number;
+  private relatedMax: number;
+  private relatedTextLimit: number;
+  private changelogMax: number;
 
   constructor() {
     const auth = Buffer.from(
       `${process.env.JIRA_EMAIL}:${process.env.JIRA_API_TOKEN}`
     ).toString('base64');
 
-    this.client = axios.create({
+    this.client = createHttpClient('Jira', 'JIRA', {
       baseURL: `${process.env.JIRA_HOST}/rest/api/3`,
       headers: {
         'Authorization': `Basic ${auth}`,
@@ -17,6 +39,14 @@ export class JiraService {
         'Content-Type': 'application/json'
       }
     });
+
+    this.attachmentTextLimit = envInt('JIRA_ATTACHMENT_TEXT_LIMIT', 4000, 0);
+    this.attachmentTextTotal = envInt('JIRA_ATTACHMENT_TEXT_TOTAL', 12000, 0);
+    this.attachmentMaxBytes = envInt('JIRA_ATTACHMENT_MAX_BYTES', 5242880, 0);
+    this.relatedDepth = envInt('JIRA_RELATED_DEPTH', 1, 0);
+    this.relatedMax = envInt('JIRA_RELATED_MAX', 10, 0);
+    this.relatedTextLimit = envInt('JIRA_RELATED_TEXT_LIMIT', 500, 0);
+    this.changelogMax = envInt('JIRA_CHANGELOG_MAX', 20, 0);
   }
 
   /**
@@ -56,12 +86,21 @@ export class JiraService {
       // Fetch comments separately
       const comments = await this.getComments(ticketKey);
 
+      const attachments: JiraAttachment[] = (fields.attachment || []).map((attachment: any) => ({
+        id: String(attachment.id),
+        filename: attachment.filename,
+        mimeType: attachment.mimeType || 'application/octet-stream',
+        size: attachment.size || 0,
+        contentUrl: attachment.content
+      }));
+      const attachmentTexts = await this.getAttachmentTexts(attachments);
+      const { linkedIssues, subtasks } = await this.getRelatedIssues(issue.key, fields);
+
       const ticket: JiraTicket = {
         key: issue.key,
         summary: fields.summary || '',
-        description: fields.description?.content
-          ? this.extractTextFromADF(fields.description)
-          : fields.description || '',
+        description: adfToMarkdown(fields.description),
+        descriptionStorage: fields.description ? adfToStorage(fields.description) : undefined,
         issueType: fields.issuetype?.name || '',
         priority: fields.priority?.name || '',
         status: fields.status?.name || '',
@@ -70,71 +109,310 @@ export class JiraService {
         created: fields.created,
         updated: fields.updated,
         resolution: fields.resolution?.name,
+        labels: fields.labels || [],
         comments,
+        attachments,
+        attachmentTexts,
+        linkedIssues,
+        subtasks,
+        changelog: this.condenseChangelog(issue.changelog),
         customFields: this.extractCustomFields(fields)
       };
 
       return ticket;
     } catch (error: any) {
-      if (error.response?.status === 404) {
-        throw new Error(`Jira ticket ${ticketKey} not found`);
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError('Jira', `Jira ticket ${ticketKey} not found`, error.details);
       }
-      throw new Error(`Failed to fetch Jira ticket: ${error.message}`);
+      throw withContext(error, 'Failed to fetch Jira ticket');
     }
   }
 
   /**
-   * Fetch comments for a ticket
+   * Find tickets matching a JQL query, following pagination up to `limit`
+   */
+  async searchTickets(jql: string, limit: number): Promise<{ key: string; summary: string }[]> {
+    const results: { key: string; summary: string }[] = [];
+    let nextPageToken: string | undefined;
+
+    try {
+      do {
+        // A search changes nothing, so it is safe to repeat
+        const response = await this.client.post('/search/jql', {
+          jql,
+          fields: ['summary'],
+          maxResults: Math.min(limit - results.length, 100),
+          nextPageToken
+        }, { idempotent: true });
+
+        for (const issue of response.data.issues || []) {
+          results.push({ key: issue.key, summary: issue.fields?.summary || '' });
+        }
+        nextPageToken = response.data.nextPageToken;
+      } while (nextPageToken && results.length < limit);
+
+      return results.slice(0, limit);
+    } catch (error: any) {
+      if (error instanceof ServiceError && error.status === 400 && error.details.length > 0) {
+        throw new Error(`Invalid JQL: ${error.details.join(' ')}`);
+      }
+      throw withContext(error, 'Failed to search Jira');
+    }
+  }
+
+  /**
+   * Fetch comments for a ticket, or none if they can't be fetched
    */
   private async getComments(ticketKey: string): Promise<JiraComment[]> {
     try {
-      const response = await this.client.get(`/issue/${ticketKey}/comment`);
-      const comments = response.data.comments || [];
-
-      return comments.map((comment: any) => ({
-        author: comment.author?.displayName || 'Unknown',
-        body: comment.body?.content
-          ? this.extractTextFromADF(comment.body)
-          : comment.body || '',
-        created: comment.created
-      }));
+      return await this.fetchComments(ticketKey);
     } catch (error) {
       console.error('Failed to fetch comments:', error);
       return [];
     }
   }
 
+  private async fetchComments(ticketKey: string): Promise<JiraComment[]> {
+    const response = await this.client.get(`/issue/${ticketKey}/comment`);
+    const comments = response.data.comments || [];
+
+    return comments.map((comment: any) => ({
+      author: comment.author?.displayName || 'Unknown',
+      body: adfToMarkdown(comment.body),
+      bodyStorage: comment.body ? adfToStorage(comment.body) : undefined,
+      created: comment.created
+    }));
+  }
+
+  /**
+   * Link the ticket to a published KBA. Jira upserts remote links by
+   * globalId, so re-publishing updates the existing link.
+   */
+  async addRemoteLink(ticketKey: string, url: string, pageTitle: string): Promise<void> {
+    try {
+      await this.client.post(`/issue/${ticketKey}/remotelink`, {
+        globalId: `kba-bot:${url}`,
+        relationship: 'Knowledge Base Article',
+        object: {
+          url,
+          title: 'Knowledge Base Article',
+          summary: pageTitle,
+          icon: {
+            url16x16: `${process.env.CONFLUENCE_HOST}/wiki/favicon.ico`,
+            title: 'Confluence'
+          }
+        }
+      }, { idempotent: true });
+    } catch (error: any) {
+      throw withContext(error, `Failed to add remote link to ${ticketKey}`);
+    }
+  }
+
+  /**
+   * Post an internal comment unless one already mentions the URL. Nothing
+   * is posted if the existing comments can't be fetched, since that could
+   * post a duplicate.
+   */
+  async addCommentOnce(ticketKey: string, text: string, url: string): Promise<boolean> {
+    try {
+      const existing = await this.fetchComments(ticketKey);
+      if (existing.some(comment => comment.body.includes(url))) {
+        return false;
+      }
+
+      await this.client.post(`/issue/${ticketKey}/comment`, {
+        body: {
+          type: 'doc',
+          version: 1,
+          content: [
+            {
+              type: 'paragraph',
+              content: [
+                { type: 'text', text: `${text} ` },
+                { type: 'text', text: url, marks: [{ type: 'link', attrs: { href: url } }] }
+              ]
+            }
+          ]
+        },
+        // Hidden from customers on Jira Service Management projects; ignored elsewhere
+        properties: [{ key: 'sd.public.comment', value: { internal: true } }]
+      });
+      return true;
+    } catch (error: any) {
+      throw withContext(error, `Failed to comment on ${ticketKey}`);
+    }
+  }
+
+  /**
+   * Add a label to the ticket (a no-op if it's already there)
+   */
+  async addLabel(ticketKey: string, label: string): Promise<void> {
+    try {
+      await this.client.put(`/issue/${ticketKey}`, {
+        update: { labels: [{ add: label }] }
+      });
+    } catch (error: any) {
+      throw withContext(error, `Failed to label ${ticketKey}`);
+    }
+  }
+
   /**
-   * Extract plain text from Atlassian Document Format (ADF)
+   * Collect linked issues and subtasks, following links up to JIRA_RELATED_DEPTH
    */
-  private extractTextFromADF(adf: any): string {
-    if (typeof adf === 'string') {
-      return adf;
+  private async getRelatedIssues(
+    ticketKey: string,
+    fields: any
+  ): Promise<{ linkedIssues: JiraRelatedIssue[]; subtasks: JiraRelatedIssue[] }> {
+    const linkedIssues: JiraRelatedIssue[] = [];
+    const subtasks: JiraRelatedIssue[] = [];
+
+    if (this.relatedDepth <= 0) {
+      return { linkedIssues, subtasks };
     }
 
-    if (!adf || !adf.content) {
-      return '';
+    const seen = new Set<string>([ticketKey]);
+    const queue: { key: string; relationship: string; depth: number; subtask: boolean }[] = [];
+
+    const enqueue = (issueFields: any, depth: number, via?: string) => {
+      const prefix = via ? `linked via ${via}: ` : '';
+      for (const link of issueFields.issuelinks || []) {
+        const target = link.outwardIssue || link.inwardIssue;
+        const relationship = link.outwardIssue ? link.type?.outward : link.type?.inward;
+        if (target?.key) {
+          queue.push({ key: target.key, relationship: `${prefix}${relationship || 'relates to'}`, depth, subtask: false });
+        }
+      }
+      for (const subtask of issueFields.subtasks || []) {
+        queue.push({ key: subtask.key, relationship: `${prefix}subtask`, depth, subtask: !via });
+      }
+    };
+
+    enqueue(fields, 1);
+
+    while (queue.length > 0 && linkedIssues.length + subtasks.length < this.relatedMax) {
+      const next = queue.shift()!;
+      if (seen.has(next.key)) {
+        continue;
+      }
+      seen.add(next.key);
+
+      try {
+        const response = await this.client.get(`/issue/${next.key}`, {
+          params: { fields: 'summary,status,resolution,issuetype,description,issuelinks,subtasks' }
+        });
+        const related = response.data.fields;
+        const description = adfToMarkdown(related.description);
+
+        const entry: JiraRelatedIssue = {
+          key: next.key,
+          relationship: next.relationship,
+          summary: related.summary || '',
+          status: related.status?.name || '',
+          resolution: related.resolution?.name,
+          issueType: related.issuetype?.name,
+          description: description ? this.truncateText(description, this.relatedTextLimit) : undefined
+        };
+        (next.subtask ? subtasks : linkedIssues).push(entry);
+
+        if (next.depth < this.relatedDepth) {
+          enqueue(related, next.depth + 1, next.key);
+        }
+      } catch (error: any) {
+        console.error(`Failed to fetch related issue ${next.key}:`, error.message);
+      }
     }
 
-    let text = '';
+    return { linkedIssues, subtasks };
+  }
 
-    const traverse = (node: any) => {
-      if (node.type === 'text') {
-        text += node.text;
+  /**
+   * Reduce the changelog to status, assignee, priority and resolution changes, oldest first
+   */
+  private condenseChangelog(changelog: any): JiraChangelogEntry[] {
+    const entries: JiraChangelogEntry[] = [];
+
+    for (const history of changelog?.histories || []) {
+      for (const item of history.items || []) {
+        if (CHANGELOG_FIELDS.includes(item.field)) {
+          entries.push({
+            author: history.author?.displayName || 'Unknown',
+            created: history.created,
+            field: item.field,
+            from: item.fromString || undefined,
+            to: item.toString || undefined
+          });
+        }
       }
+    }
 
-      if (node.content) {
-        node.content.forEach(traverse);
+    entries.sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime());
+    return entries.slice(-this.changelogMax);
+  }
+
+  /**
+   * Download an attachment's contents
+   */
+  async downloadAttachment(contentUrl: string): Promise<Buffer> {
+    const response = await this.client.get(contentUrl, {
+      responseType: 'arraybuffer',
+      maxContentLength: this.attachmentMaxBytes
+    });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Whether an attachment is an image that could serve as a step screenshot
+   */
+  isImageAttachment(attachment: JiraAttachment): boolean {
+    return attachment.mimeType.startsWith('image/') && attachment.size <= this.attachmentMaxBytes;
+  }
+
+  /**
+   * Download text attachments (logs, configs) for the generation context,
+   * truncating each file and the total to keep prompts a sensible size
+   */
+  private async getAttachmentTexts(attachments: JiraAttachment[]): Promise<JiraAttachmentText[]> {
+    const texts: JiraAttachmentText[] = [];
+    let remaining = this.attachmentTextTotal;
+
+    const textAttachments = attachments.filter(attachment =>
+      (attachment.mimeType.startsWith('text/') ||
+        attachment.mimeType === 'application/json' ||
+        attachment.mimeType === 'application/xml' ||
+        TEXT_ATTACHMENT_EXTENSIONS.test(attachment.filename)) &&
+      attachment.size <= this.attachmentMaxBytes
+    );
+
+    for (const attachment of textAttachments) {
+      if (remaining <= 0) {
+        break;
       }
 
-      // Add spacing for paragraphs
-      if (node.type === 'paragraph' || node.type === 'heading') {
-        text += '\n';
+      try {
+        const content = (await this.downloadAttachment(attachment.contentUrl)).toString('utf8');
+        const truncated = this.truncateText(content, Math.min(this.attachmentTextLimit, remaining));
+        texts.push({ filename: attachment.filename, content: truncated });
+        remaining -= truncated.length;
+      } catch (error: any) {
+        console.error(`Failed to download attachment ${attachment.filename}:`, error.message);
       }
-    };
+    }
+
+    return texts;
+  }
+
+  /**
+   * Keep the head and tail of long text; errors in logs tend to be at the end
+   */
+  private truncateText(text: string, limit: number): string {
+    if (text.length <= limit) {
+      return text;
+    }
 
-    traverse(adf);
-    return text.trim();
+    const head = Math.floor(limit * 0.4);
+    const tail = limit - head;
+    const omitted = text.length - head - tail;
+    return `${text.slice(0, head)}\n... [${omitted} characters omitted] ...\n${text.slice(text.length - tail)}`;
   }
 
   /**
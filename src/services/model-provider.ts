@@ -0,0 +1,109 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { JiraTicket, KBAContent, GeneratedImage, ImageFailure } from '../types';
+import { OpenAIService } from './openai.service';
+import { FixtureModelService } from './fixture-model.service';
+import { KBATemplate } from '../templates/kba-templates';
+import { ImageProgressListener } from '../utils/image-jobs';
+
+export interface KBAGenerationOptions {
+  baseArticle?: string; // Plain text of an existing KBA to extend
+  template?: KBATemplate; // Defaults to the troubleshooting layout
+  onUsage?: UsageListener;
+}
+
+/**
+ * What one model call cost, reported after it finishes
+ */
+export interface ModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  latencyMs: number;
+  cost: number; // Estimated USD
+}
+
+export type UsageListener = (usage: ModelUsage) => void;
+
+export interface ImageGenerationResult {
+  images: GeneratedImage[];
+  failures: ImageFailure[]; // Images that still failed after retrying
+}
+
+/**
+ * Everything the workflow needs from a language / image model
+ */
+export interface KBAModelProvider {
+  readonly name: string;
+  generateClarifyingQuestions(ticket: JiraTicket, onUsage?: UsageListener): Promise<string[]>;
+  generateFollowUpQuestions(
+    ticket: JiraTicket,
+    userAnswers: Record<string, string>,
+    onUsage?: UsageListener
+  ): Promise<string[]>;
+  generateKBAContent(
+    ticket: JiraTicket,
+    userAnswers: Record<string, string>,
+    options?: KBAGenerationOptions
+  ): Promise<KBAContent>;
+  refineKBAContent(originalContent: KBAContent, feedback: string, onUsage?: UsageListener): Promise<KBAContent>;
+  generateImages(
+    content: KBAContent,
+    onUsage?: UsageListener,
+    onProgress?: ImageProgressListener
+  ): Promise<ImageGenerationResult>;
+}
+
+/**
+ * Environment variables each provider needs
+ */
+export const MODEL_PROVIDER_ENV_VARS: Record<string, string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  azure: ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT'],
+  local: ['LOCAL_LLM_BASE_URL', 'LOCAL_LLM_MODEL'],
+  fixture: []
+};
+
+/**
+ * Create the model provider selected by LLM_PROVIDER
+ */
+export function createModelProvider(): KBAModelProvider {
+  const provider = process.env.LLM_PROVIDER || 'openai';
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIService();
+
+    case 'azure':
+      return new OpenAIService({
+        name: 'azure',
+        client: new AzureOpenAI({
+          endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+          apiKey: process.env.AZURE_OPENAI_API_KEY,
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01'
+        }),
+        model: process.env.AZURE_OPENAI_DEPLOYMENT,
+        imageModel: process.env.AZURE_OPENAI_IMAGE_DEPLOYMENT || null
+      });
+
+    case 'local':
+      // Self-hosted models keep ticket data on our own infrastructure,
+      // so images stay off unless a local image endpoint is configured
+      return new OpenAIService({
+        name: 'local',
+        client: new OpenAI({
+          baseURL: process.env.LOCAL_LLM_BASE_URL,
+          apiKey: process.env.LOCAL_LLM_API_KEY || 'local'
+        }),
+        model: process.env.LOCAL_LLM_MODEL,
+        imageModel: process.env.LOCAL_LLM_IMAGE_MODEL || null,
+        jsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false'
+      });
+
+    case 'fixture':
+      return new FixtureModelService();
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
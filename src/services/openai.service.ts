@@ -1,34 +1,69 @@
 import OpenAI from 'openai';
-import { JiraTicket, KBAContent, GeneratedImage } from '../types';
+import { JiraTicket, JiraRelatedIssue, KBAContent, GeneratedImage } from '../types';
+import { ImageGenerationResult, KBAGenerationOptions, KBAModelProvider, UsageListener } from './model-provider';
+import { KBATemplate, getTemplate, templateLayout } from '../templates/kba-templates';
+import {
+  ModelOutputError,
+  ValidationResult,
+  validateKBAContent,
+  validateQuestions
+} from '../utils/kba-validation';
+import { estimateCompletionCost, estimateImageCost } from '../utils/model-pricing';
+import { ImageJob, ImageProgressListener, runImageJobs } from '../utils/image-jobs';
+import { envInt } from '../utils/env';
+
+export interface OpenAIServiceOptions {
+  name?: string;
+  client?: OpenAI;
+  model?: string;
+  imageModel?: string | null; // null disables image generation
+  jsonMode?: boolean; // Whether the endpoint supports response_format json_object
+  repairAttempts?: number; // Re-prompts allowed when output fails validation
+  imageConcurrency?: number;
+  imageAttempts?: number; // Tries per image, including the first
+  imageTimeoutMs?: number; // Per try
+}
 
-export class OpenAIService {
+/**
+ * Model provider for OpenAI and any endpoint speaking the OpenAI API
+ * (Azure OpenAI, Ollama, llama.cpp, vLLM, ...)
+ */
+export class OpenAIService implements KBAModelProvider {
+  readonly name: string;
   private client: OpenAI;
   private model: string;
-  private imageModel: string;
-
-  constructor() {
-    this.client = new OpenAI({
+  private imageModel: string | null;
+  private jsonMode: boolean;
+  private repairAttempts: number;
+  private imageConcurrency: number;
+  private imageAttempts: number;
+  private imageTimeoutMs: number;
+
+  constructor(options: OpenAIServiceOptions = {}) {
+    this.name = options.name || 'openai';
+    this.client = options.client || new OpenAI({
       apiKey: process.env.OPENAI_API_KEY
     });
-    this.model = process.env.OPENAI_MODEL || 'gpt-4-turbo-preview';
-    this.imageModel = process.env.OPENAI_IMAGE_MODEL || 'dall-e-3';
+    this.model = options.model || process.env.OPENAI_MODEL || 'gpt-4-turbo-preview';
+    this.imageModel = options.imageModel !== undefined
+      ? options.imageModel
+      : process.env.OPENAI_IMAGE_MODEL || 'dall-e-3';
+    this.jsonMode = options.jsonMode ?? true;
+    this.repairAttempts = options.repairAttempts ?? envInt('LLM_REPAIR_ATTEMPTS', 2, 0);
+    this.imageConcurrency = options.imageConcurrency ?? envInt('IMAGE_CONCURRENCY', 3, 1);
+    this.imageAttempts = options.imageAttempts ?? envInt('IMAGE_MAX_ATTEMPTS', 4, 1);
+    this.imageTimeoutMs = options.imageTimeoutMs ?? envInt('IMAGE_TIMEOUT_MS', 120000, 1);
   }
 
   /**
    * Analyze Jira ticket and determine what clarifying questions to ask
    */
-  async generateClarifyingQuestions(ticket: JiraTicket): Promise<string[]> {
+  async generateClarifyingQuestions(ticket: JiraTicket, onUsage?: UsageListener): Promise<string[]> {
     const prompt = `You are an expert technical writer creating knowledge base articles (KBAs) for IT support teams.
 
 Analyze this Jira ticket and determine what additional information you need to write a comprehensive troubleshooting guide for Level 2 and Level 3 technicians.
 
-Jira Ticket:
-- Key: ${ticket.key}
-- Summary: ${ticket.summary}
-- Description: ${ticket.description}
-- Priority: ${ticket.priority}
-- Status: ${ticket.status}
-${ticket.comments && ticket.comments.length > 0 ? `\nComments:\n${ticket.comments.map(c => `- ${c.author}: ${c.body}`).join('\n')}` : ''}
+${this.formatTicket(ticket)}
 
 Generate 2-4 specific clarifying questions that would help you write a better KBA. Focus on:
 - Root cause if not clear
@@ -37,23 +72,39 @@ Generate 2-4 specific clarifying questions that would help you write a better KB
 - Any prerequisites or permissions needed
 - Expected vs actual behavior
 
-Return ONLY a JSON array of question strings, nothing else. Example:
-["What were the exact error messages users encountered?", "Did this affect Mac users, Windows users, or both?"]`;
+Return ONLY a JSON object with a "questions" array of strings, nothing else. Example:
+{"questions": ["What were the exact error messages users encountered?", "Did this affect Mac users, Windows users, or both?"]}`;
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-      response_format: { type: 'json_object' }
-    });
+    return this.completeJSON(prompt, validateQuestions, onUsage);
+  }
 
-    const content = response.choices[0].message.content || '{"questions": []}';
-    try {
-      const parsed = JSON.parse(content);
-      return parsed.questions || [];
-    } catch {
-      return [];
-    }
+  /**
+   * Ask for clarification on answers that are too vague to write from
+   */
+  async generateFollowUpQuestions(
+    ticket: JiraTicket,
+    userAnswers: Record<string, string>,
+    onUsage?: UsageListener
+  ): Promise<string[]> {
+    const answersText = Object.entries(userAnswers)
+      .map(([q, a]) => `Q: ${q}\nA: ${a}`)
+      .join('\n\n');
+
+    const prompt = `You are an expert technical writer creating knowledge base articles (KBAs) for IT support teams.
+
+You asked clarifying questions about Jira ticket ${ticket.key} (${ticket.summary}) and received these answers:
+
+${answersText}
+
+Identify answers that are too vague to write precise troubleshooting steps from (for example "it was fixed", "changed a setting", "the usual way"). Ignore answers the user explicitly skipped.
+
+For each vague answer, write one specific follow-up question. Ask at most 2 follow-up questions. If every answer is specific enough, return an empty list.
+
+Return ONLY a JSON object with a "questions" array of strings, nothing else. Example:
+{"questions": ["Which setting was changed, and to what value?"]}`;
+
+    const questions = await this.completeJSON(prompt, validateQuestions, onUsage);
+    return questions.slice(0, 2);
   }
 
   /**
@@ -61,28 +112,27 @@ Return ONLY a JSON array of question strings, nothing else. Example:
    */
   async generateKBAContent(
     ticket: JiraTicket,
-    userAnswers: Record<string, string>
+    userAnswers: Record<string, string>,
+    options: KBAGenerationOptions = {}
   ): Promise<KBAContent> {
+    const { baseArticle, template, onUsage } = options;
     const answersText = Object.entries(userAnswers)
       .map(([q, a]) => `Q: ${q}\nA: ${a}`)
       .join('\n\n');
 
+    const baseText = baseArticle
+      ? `\nExisting KBA to extend (keep what is still correct and add what this ticket adds, such as new causes, steps or workarounds):\n${baseArticle}\n`
+      : '';
+
     const prompt = `You are an expert technical writer creating knowledge base articles (KBAs) for IT support teams.
 
 Create a comprehensive KBA article based on this Jira ticket and additional context.
 
-Jira Ticket:
-- Key: ${ticket.key}
-- Summary: ${ticket.summary}
-- Description: ${ticket.description}
-- Priority: ${ticket.priority}
-- Status: ${ticket.status}
-${ticket.resolution ? `- Resolution: ${ticket.resolution}` : ''}
-${ticket.comments && ticket.comments.length > 0 ? `\nComments:\n${ticket.comments.map(c => `- ${c.author}: ${c.body}`).join('\n')}` : ''}
+${this.formatTicket(ticket)}
 
 Additional Context from Questions:
 ${answersText}
-
+${baseText}${this.describeTemplate(template)}
 Create a KBA with:
 1. A clear, searchable title
 2. Problem statement (what issue users are experiencing)
@@ -116,63 +166,87 @@ Return ONLY valid JSON in this exact format:
   "tags": ["networking", "mac", "connectivity"]
 }`;
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-      response_format: { type: 'json_object' }
-    });
-
-    const content = response.choices[0].message.content || '{}';
-    const kba = JSON.parse(content);
-
-    return kba as KBAContent;
+    return this.completeJSON(prompt, raw => validateKBAContent(raw, template), onUsage);
   }
 
   /**
    * Generate images based on the image prompts in KBA steps
    */
-  async generateImages(content: KBAContent): Promise<GeneratedImage[]> {
-    const images: GeneratedImage[] = [];
+  async generateImages(
+    content: KBAContent,
+    onUsage?: UsageListener,
+    onProgress?: ImageProgressListener
+  ): Promise<ImageGenerationResult> {
+    const imageModel = this.imageModel;
+
+    if (!imageModel) {
+      return { images: [], failures: [] };
+    }
 
-    for (const step of content.steps) {
-      if (step.imagePrompt && step.osType) {
-        try {
-          // Generate for the specified OS
-          const osTypes: ('mac' | 'windows')[] = step.osType === 'both' ? ['mac', 'windows'] : [step.osType];
-
-          for (const os of osTypes) {
-            const enhancedPrompt = this.enhanceImagePrompt(step.imagePrompt, os);
-
-            const response = await this.client.images.generate({
-              model: this.imageModel,
-              prompt: enhancedPrompt,
-              n: 1,
-              size: '1024x1024',
-              quality: 'standard',
-              style: 'natural'
-            });
-
-            if (response.data && response.data[0] && response.data[0].url) {
-              images.push({
-                stepNumber: step.stepNumber,
-                url: response.data[0].url,
-                osType: os,
-                prompt: enhancedPrompt
-              });
-            }
-          }
+    // One job per step and OS
+    const jobs: ImageJob[] = content.steps.flatMap(step => {
+      if (!step.imagePrompt || !step.osType) {
+        return [];
+      }
+      const osTypes: ('mac' | 'windows')[] = step.osType === 'both' ? ['mac', 'windows'] : [step.osType];
+      return osTypes.map(os => ({
+        stepNumber: step.stepNumber,
+        osType: os,
+        prompt: this.enhanceImagePrompt(step.imagePrompt!, os)
+      }));
+    });
 
-          // Add delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error: any) {
-          console.error(`Failed to generate image for step ${step.stepNumber}:`, error.message);
-          // Continue with other images even if one fails
-        }
+    const started = Date.now();
+
+    // The runner does its own retries, so the client's are turned off
+    const outcomes = await runImageJobs(jobs, async (job, signal) => {
+      const response = await this.client.images.generate({
+        model: imageModel,
+        prompt: job.prompt,
+        n: 1,
+        size: '1024x1024',
+        quality: 'standard',
+        style: 'natural'
+      }, { signal, maxRetries: 0, timeout: this.imageTimeoutMs });
+
+      const url = response.data?.[0]?.url;
+      if (!url) {
+        throw new Error('The image model returned no image');
       }
-    }
+      return url;
+    }, {
+      concurrency: this.imageConcurrency,
+      maxAttempts: this.imageAttempts,
+      timeoutMs: this.imageTimeoutMs,
+      onProgress
+    });
+
+    const images: GeneratedImage[] = outcomes
+      .filter(outcome => outcome.result)
+      .map(outcome => ({
+        stepNumber: outcome.job.stepNumber,
+        url: outcome.result!,
+        osType: outcome.job.osType,
+        prompt: outcome.job.prompt,
+        basePrompt: content.steps.find(step => step.stepNumber === outcome.job.stepNumber)?.imagePrompt
+      }));
+
+    // Failed requests are usually not billed, so only count what came back
+    onUsage?.({
+      model: imageModel,
+      promptTokens: 0,
+      completionTokens: 0,
+      images: images.length,
+      latencyMs: Date.now() - started,
+      cost: this.name === 'local' ? 0 : estimateImageCost(imageModel, images.length)
+    });
 
-    return images;
+    return {
+      images,
+      failures: outcomes
+        .filter(outcome => outcome.error)
+        .map(outcome => ({ stepNumber: outcome.job.stepNumber, osType: outcome.job.osType, error: outcome.error! }))
+    };
   }
 
   /**
@@ -192,7 +266,8 @@ Return ONLY valid JSON in this exact format:
    */
   async refineKBAContent(
     originalContent: KBAContent,
-    feedback: string
+    feedback: string,
+    onUsage?: UsageListener
   ): Promise<KBAContent> {
     const prompt = `You are refining a KBA article based on user feedback.
 
@@ -204,14 +279,182 @@ ${feedback}
 
 Update the KBA to address the feedback. Return ONLY the complete updated KBA as valid JSON in the same format as the original.`;
 
-    const response = await this.client.chat.completions.create({
+    const template = getTemplate(originalContent.template);
+    return this.completeJSON(prompt, raw => validateKBAContent(raw, template), onUsage);
+  }
+
+  /**
+   * Explain how a non-default template maps onto the JSON fields
+   */
+  private describeTemplate(template?: KBATemplate): string {
+    if (!template || (template.sections.length === 0 && !template.promptFragment)) {
+      return '';
+    }
+
+    let text = `\nArticle type: ${template.name}\n${template.promptFragment}\n`;
+    text += `\nThe article will be laid out with these headings:\n`;
+    text += templateLayout(template).map(entry => `- ${entry.heading} ("${entry.core ? entry.key : `sections.${entry.key}`}")`).join('\n');
+
+    if (template.sections.length > 0) {
+      text += `\n\nIn addition to the fields below, include a "sections" object with these string fields:\n`;
+      text += template.sections
+        .map(section => `- "${section.key}"${section.optional ? ' (optional)' : ''}: ${section.instruction}`)
+        .join('\n');
+    }
+
+    return `${text}\n`;
+  }
+
+  /**
+   * Run a JSON completion and validate it, re-prompting with the
+   * validation errors a bounded number of times before giving up.
+   * Token usage of every attempt is reported once, at the end, also
+   * when the output stays invalid or the API call fails.
+   */
+  private async completeJSON<T>(
+    prompt: string,
+    validate: (raw: any) => ValidationResult<T>,
+    onUsage?: UsageListener
+  ): Promise<T> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
+    const started = Date.now();
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let errors: string[] = [];
+
+    const report = () => onUsage?.({
       model: this.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-      response_format: { type: 'json_object' }
+      promptTokens,
+      completionTokens,
+      images: 0,
+      latencyMs: Date.now() - started,
+      cost: this.name === 'local' ? 0 : estimateCompletionCost(this.model, promptTokens, completionTokens)
     });
 
-    const content = response.choices[0].message.content || '{}';
-    return JSON.parse(content) as KBAContent;
+    try {
+      for (let attempt = 0; attempt <= this.repairAttempts; attempt++) {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          temperature: 0.7,
+          ...this.responseFormat()
+        });
+
+        promptTokens += response.usage?.prompt_tokens || 0;
+        completionTokens += response.usage?.completion_tokens || 0;
+        const content = response.choices[0].message.content || '';
+
+        try {
+          const result = validate(this.parseJSON(content));
+          if (result.value !== undefined) {
+            return result.value;
+          }
+          errors = result.errors;
+        } catch (error: any) {
+          errors = [`Response is not valid JSON: ${error.message}`];
+        }
+
+        console.warn(`Model output failed validation (attempt ${attempt + 1}):`, errors);
+
+        messages.push(
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `Your response did not match the required format:\n${errors.map(e => `- ${e}`).join('\n')}\n\n` +
+              `Return ONLY the corrected JSON, with no explanation.`
+          }
+        );
+      }
+
+      throw new ModelOutputError(
+        `The model returned invalid output after ${this.repairAttempts + 1} attempt(s)`,
+        errors
+      );
+    } finally {
+      report();
+    }
+  }
+
+  /**
+   * Render a ticket for a prompt. Description and comments are Markdown
+   * so code blocks, lists and links from the ticket survive. Related
+   * issues, history and text attachments are already trimmed by JiraService.
+   */
+  private formatTicket(ticket: JiraTicket): string {
+    let text = `Jira Ticket:
+- Key: ${ticket.key}
+- Summary: ${ticket.summary}
+- Priority: ${ticket.priority}
+- Status: ${ticket.status}
+${ticket.resolution ? `- Resolution: ${ticket.resolution}\n` : ''}
+Description:
+${ticket.description || '(none)'}
+`;
+
+    if (ticket.comments && ticket.comments.length > 0) {
+      text += `\nComments:\n`;
+      text += ticket.comments.map(c => `--- ${c.author} (${c.created}) ---\n${c.body}`).join('\n\n');
+      text += '\n';
+    }
+
+    if (ticket.linkedIssues && ticket.linkedIssues.length > 0) {
+      text += `\nLinked issues:\n`;
+      text += ticket.linkedIssues.map(issue => this.formatRelatedIssue(issue)).join('\n');
+      text += '\n';
+    }
+
+    if (ticket.subtasks && ticket.subtasks.length > 0) {
+      text += `\nSubtasks:\n`;
+      text += ticket.subtasks.map(issue => this.formatRelatedIssue(issue)).join('\n');
+      text += '\n';
+    }
+
+    if (ticket.changelog && ticket.changelog.length > 0) {
+      text += `\nHistory (status, assignee, priority and resolution changes):\n`;
+      text += ticket.changelog
+        .map(entry => `- ${entry.created.slice(0, 16).replace('T', ' ')} ${entry.author}: ${entry.field} ${entry.from || '(none)'} -> ${entry.to || '(none)'}`)
+        .join('\n');
+      text += '\n';
+    }
+
+    if (ticket.attachmentTexts && ticket.attachmentTexts.length > 0) {
+      text += `\nAttached files:\n`;
+      text += ticket.attachmentTexts.map(a => `--- ${a.filename} ---\n${a.content}`).join('\n\n');
+      text += '\n';
+    }
+
+    return text;
+  }
+
+  /**
+   * One line (plus description excerpt) per linked issue or subtask
+   */
+  private formatRelatedIssue(issue: JiraRelatedIssue): string {
+    let line = `- ${issue.relationship} ${issue.key}${issue.issueType ? ` (${issue.issueType})` : ''}: ${issue.summary} ` +
+      `[Status: ${issue.status}${issue.resolution ? `, Resolution: ${issue.resolution}` : ''}]`;
+    if (issue.description) {
+      line += `\n  ${issue.description.replace(/\n/g, '\n  ')}`;
+    }
+    return line;
+  }
+
+  /**
+   * Ask for JSON output on endpoints that support it
+   */
+  private responseFormat(): { response_format?: { type: 'json_object' } } {
+    return this.jsonMode ? { response_format: { type: 'json_object' } } : {};
+  }
+
+  /**
+   * Parse a JSON object from a completion, tolerating the markdown fences
+   * local models like to wrap around it
+   */
+  private parseJSON(content: string): any {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      return JSON.parse(content);
+    }
+    return JSON.parse(content.slice(start, end + 1));
   }
 }
@@ -0,0 +1,92 @@
+import { GeneratedImage, KBADraft } from '../types';
+import { ConfluenceService } from './confluence.service';
+import { ConfluencePublisher } from './confluence-publisher.service';
+import { GitPublisher } from './git-publisher.service';
+import { WebhookPublisher } from './webhook-publisher.service';
+
+export interface PublishOptions {
+  approverName: string; // Every approver, comma separated
+  requesterName?: string;
+  loadImage: (image: GeneratedImage) => Promise<Buffer | null>;
+  assertNoSecrets: (text: string) => void; // Throws if the final output still contains a secret
+}
+
+export interface PublishResult {
+  publisher: string;
+  url?: string;
+  detail: string; // Shown in Slack, e.g. "commit 1a2b3c4"
+  confluencePageId?: string; // Set by the Confluence publisher so re-publishing updates in place
+}
+
+/**
+ * A destination approved KBAs can be published to
+ */
+export interface KBAPublisher {
+  readonly name: string;
+  publish(draft: KBADraft, options: PublishOptions): Promise<PublishResult>;
+}
+
+/**
+ * Environment variables each publisher needs
+ */
+export const PUBLISHER_ENV_VARS: Record<string, string[]> = {
+  confluence: [],
+  git: ['GIT_PUBLISH_REPO_PATH'],
+  webhook: ['WEBHOOK_PUBLISH_URL']
+};
+
+/**
+ * Create every publisher named in PUBLISH_TARGETS or PUBLISH_CHANNEL_TARGETS
+ */
+export function createPublishers(confluenceService: ConfluenceService): Map<string, KBAPublisher> {
+  const names = new Set([
+    ...defaultTargets(),
+    ...Array.from(channelTargets().values()).flat()
+  ]);
+  const publishers = new Map<string, KBAPublisher>();
+
+  for (const name of names) {
+    switch (name) {
+      case 'confluence':
+        publishers.set(name, new ConfluencePublisher(confluenceService));
+        break;
+      case 'git':
+        publishers.set(name, new GitPublisher());
+        break;
+      case 'webhook':
+        publishers.set(name, new WebhookPublisher());
+        break;
+      default:
+        throw new Error(`Unknown publish target: ${name}`);
+    }
+  }
+
+  return publishers;
+}
+
+/**
+ * Publishers a channel publishes to. PUBLISH_CHANNEL_TARGETS
+ * (e.g. "C0123=confluence+git,C0456=webhook") overrides PUBLISH_TARGETS.
+ */
+export function publishTargets(channel: string): string[] {
+  return channelTargets().get(channel) || defaultTargets();
+}
+
+function defaultTargets(): string[] {
+  return splitTargets(process.env.PUBLISH_TARGETS || 'confluence', ',');
+}
+
+function channelTargets(): Map<string, string[]> {
+  const targets = new Map<string, string[]>();
+  for (const pair of (process.env.PUBLISH_CHANNEL_TARGETS || '').split(',')) {
+    const [channel, names] = pair.split('=').map(part => part.trim());
+    if (channel && names) {
+      targets.set(channel, splitTargets(names, '+'));
+    }
+  }
+  return targets;
+}
+
+function splitTargets(value: string, separator: string): string[] {
+  return value.split(separator).map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
+}
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuotaOverride, QuotaService, plannedImages } from './quota.service';
+import { AuditEvent, InMemoryAuditLog } from '../stores/audit-log';
+import { InMemoryContextStore } from '../stores/context-store';
+
+/**
+ * A quota service with the given QUOTAS and an empty audit log
+ */
+function quotas(limits: string, admins = ''): { service: QuotaService; log: InMemoryAuditLog } {
+  process.env.QUOTAS = limits;
+  process.env.QUOTA_ADMINS = admins;
+  const log = new InMemoryAuditLog();
+  return { service: new QuotaService(log, new InMemoryContextStore<QuotaOverride>()), log };
+}
+
+function event(type: AuditEvent['type'], userId: string, channel: string, extra: Partial<AuditEvent> = {}) {
+  return { type, userId, channel, ticketKey: 'SUP-1', conversation: `${channel}-1`, ...extra };
+}
+
+test('generations started at the same time count against each other', async () => {
+  const { service, log } = quotas('user:day:generations=3');
+  await log.append(event('generation', 'U1', 'C1'));
+
+  const reservations = await Promise.all(Array.from({ length: 10 }, () => service.reserveGeneration('U1', 'C1')));
+  assert.equal(reservations.filter(r => r.allowed).length, 2);
+  assert.match(reservations.find(r => !r.allowed)!.reason!, /Your daily generation limit has been reached/);
+});
+
+test('a released reservation no longer counts', async () => {
+  const { service } = quotas('user:day:generations=1');
+
+  const first = await service.reserveGeneration('U1', 'C1');
+  assert.equal(first.allowed, true);
+  assert.equal((await service.checkGeneration('U1', 'C1')).allowed, false);
+
+  first.release();
+  assert.equal((await service.checkGeneration('U1', 'C1')).allowed, true);
+});
+
+test('once the usage is audited it counts instead of the reservation', async () => {
+  const { service, log } = quotas('user:day:generations=1');
+
+  const reservation = await service.reserveGeneration('U1', 'C1');
+  await log.append(event('generation', 'U1', 'C1'));
+  reservation.release();
+
+  assert.equal((await service.checkGeneration('U1', 'C1')).allowed, false);
+});
+
+test('reservations only count within their scope', async () => {
+  const { service } = quotas('user:day:generations=1,channel:day:images=4');
+
+  assert.equal((await service.reserveGeneration('U1', 'C1')).allowed, true);
+  assert.equal((await service.reserveGeneration('U2', 'C1')).allowed, true);
+
+  assert.equal((await service.reserveImages('U1', 'C1', 3)).allowed, true);
+  assert.equal((await service.reserveImages('U2', 'C2', 3)).allowed, true);
+  const skipped = await service.reserveImages('U3', 'C1', 2);
+  assert.equal(skipped.allowed, false);
+  assert.match(skipped.reason!, /This channel's daily image limit would be exceeded/);
+});
+
+test('a refused reservation is not held', async () => {
+  const { service } = quotas('global:day:images=2');
+
+  assert.equal((await service.reserveImages('U1', 'C1', 3)).allowed, false);
+  assert.equal((await service.reserveImages('U1', 'C1', 2)).allowed, true);
+});
+
+test('spend stops new work once the budget is used up', async () => {
+  const { service, log } = quotas('global:month:spend=1');
+  await log.append(event('generation', 'U1', 'C1', { cost: 0.6 }));
+  assert.equal((await service.reserveGeneration('U2', 'C2')).allowed, true);
+
+  await log.append(event('images_generated', 'U1', 'C1', { cost: 0.4, images: 10 }));
+  assert.equal((await service.reserveGeneration('U2', 'C2')).allowed, false);
+});
+
+test('admins and overrides bypass the limits', async () => {
+  const { service } = quotas('user:day:generations=0', 'UADMIN');
+  assert.equal((await service.reserveGeneration('UADMIN', 'C1')).allowed, true);
+  assert.equal((await service.reserveGeneration('U1', 'C1')).allowed, false);
+
+  await service.grantOverride('C1', 'UADMIN', 1);
+  assert.equal((await service.reserveGeneration('U1', 'C1')).allowed, true);
+});
+
+test('planned images count both operating systems', () => {
+  assert.equal(plannedImages([
+    { stepNumber: 1, description: '', imagePrompt: 'a', osType: 'both' },
+    { stepNumber: 2, description: '', imagePrompt: 'b', osType: 'mac' },
+    { stepNumber: 3, description: '', osType: 'windows' },
+    { stepNumber: 4, description: '', imagePrompt: 'c' }
+  ]), 3);
+});
@@ -0,0 +1,314 @@
+import { AuditEvent, AuditLog } from '../stores/audit-log';
+import { ContextStore } from '../stores/context-store';
+import { KBAStep } from '../types';
+
+export type QuotaScope = 'user' | 'channel' | 'global';
+export type QuotaPeriod = 'day' | 'month';
+export type QuotaMetric = 'generations' | 'images' | 'spend';
+
+export interface QuotaLimit {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  limit: number; // Count, or USD for spend
+}
+
+/**
+ * An admin lifting the quotas for one user or channel until a deadline
+ */
+export interface QuotaOverride {
+  target: string; // Slack user or channel ID
+  until: string; // ISO timestamp
+  grantedBy: string;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface QuotaReservation extends QuotaDecision {
+  release: () => void; // Call once the usage is in the audit log, or the model call failed
+}
+
+/**
+ * Generations and images a model call was allowed but hasn't audited yet
+ */
+interface QuotaHold {
+  userId: string;
+  channel: string;
+  generations: number;
+  images: number;
+}
+
+const DEFAULT_OVERRIDE_HOURS = 24;
+
+/**
+ * Per-user, per-channel and global limits on generations, images and
+ * estimated spend, counted from the audit log. QUOTAS lists the limits as
+ * "scope:period:metric=limit", e.g.
+ * "user:day:generations=10,channel:month:images=200,global:month:spend=300".
+ * Model calls reserve what they plan to use until it is audited, so calls
+ * started at the same time count against each other.
+ */
+export class QuotaService {
+  private limits: QuotaLimit[];
+  private admins: string[];
+  private holds: QuotaHold[] = [];
+
+  constructor(
+    private auditLog: AuditLog,
+    private overrides: ContextStore<QuotaOverride>
+  ) {
+    this.limits = parseLimits(process.env.QUOTAS || '');
+    this.admins = (process.env.QUOTA_ADMINS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id.length > 0);
+  }
+
+  isAdmin(userId: string): boolean {
+    return this.admins.includes(userId);
+  }
+
+  /**
+   * Whether the user may start another generation in this channel
+   */
+  async checkGeneration(userId: string, channel: string): Promise<QuotaDecision> {
+    return this.generationDecision(await this.exceededLimits(userId, channel, { generations: 1, images: 0 }));
+  }
+
+  /**
+   * Check and hold one generation for a model call that is about to start
+   */
+  async reserveGeneration(userId: string, channel: string): Promise<QuotaReservation> {
+    return this.reserve(userId, channel, { generations: 1, images: 0 }, exceeded => this.generationDecision(exceeded));
+  }
+
+  /**
+   * Whether `count` more images fit. Callers skip images instead of
+   * failing the whole draft when they don't.
+   */
+  async checkImages(userId: string, channel: string, count: number): Promise<QuotaDecision> {
+    return this.imageDecision(await this.exceededLimits(userId, channel, { generations: 0, images: count }));
+  }
+
+  /**
+   * Check and hold `count` images for a model call that is about to start
+   */
+  async reserveImages(userId: string, channel: string, count: number): Promise<QuotaReservation> {
+    return this.reserve(userId, channel, { generations: 0, images: count }, exceeded => this.imageDecision(exceeded));
+  }
+
+  private async reserve(
+    userId: string,
+    channel: string,
+    planned: { generations: number; images: number },
+    decide: (exceeded: QuotaLimit[]) => QuotaDecision
+  ): Promise<QuotaReservation> {
+    // Held before the audit log is read, so a call checked meanwhile already counts this one
+    const hold: QuotaHold = { userId, channel, ...planned };
+    this.holds.push(hold);
+    const release = () => {
+      this.holds = this.holds.filter(other => other !== hold);
+    };
+
+    let decision: QuotaDecision;
+    try {
+      decision = decide(await this.exceededLimits(userId, channel, planned, hold));
+    } catch (error) {
+      release();
+      throw error;
+    }
+    if (!decision.allowed) {
+      release();
+    }
+    return { ...decision, release };
+  }
+
+  private generationDecision(exceeded: QuotaLimit[]): QuotaDecision {
+    const blocking = exceeded.filter(limit => limit.metric !== 'images');
+    if (blocking.length === 0) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      reason: `${this.describe(blocking[0])} has been reached, so no new KBA can be generated right now.` +
+        this.adminHint()
+    };
+  }
+
+  private imageDecision(limits: QuotaLimit[]): QuotaDecision {
+    const exceeded = limits.filter(limit => limit.metric !== 'generations');
+    if (exceeded.length === 0) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      reason: `${this.describe(exceeded[0])} would be exceeded, so screenshot mockups were skipped. ` +
+        `You can attach real screenshots from the ticket instead.` + this.adminHint()
+    };
+  }
+
+  /**
+   * Lift the quotas for a user or channel for a number of hours
+   */
+  async grantOverride(target: string, adminId: string, hours: number = DEFAULT_OVERRIDE_HOURS): Promise<QuotaOverride> {
+    const override = {
+      target,
+      until: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+      grantedBy: adminId
+    };
+    await this.overrides.set(target, override);
+    return override;
+  }
+
+  async revokeOverride(target: string): Promise<void> {
+    await this.overrides.delete(target);
+  }
+
+  /**
+   * One line per configured limit with current usage, for /kba quota
+   */
+  async describeUsage(userId: string, channel: string): Promise<string[]> {
+    const events = await this.auditLog.read(periodStart('month'));
+    return this.limits.map(limit => {
+      const used = usage(events, limit, userId, channel);
+      const shown = limit.metric === 'spend' ? `$${used.toFixed(2)} of $${limit.limit.toFixed(2)}` : `${used} of ${limit.limit}`;
+      return `${this.describe(limit)}: ${shown}`;
+    });
+  }
+
+  /**
+   * Limits the planned usage would go over. Holds taken before `hold` (all
+   * of them without one) count as used.
+   */
+  private async exceededLimits(
+    userId: string,
+    channel: string,
+    planned: { generations: number; images: number },
+    hold?: QuotaHold
+  ): Promise<QuotaLimit[]> {
+    if (this.limits.length === 0 || this.isAdmin(userId) || await this.hasOverride(userId, channel)) {
+      return [];
+    }
+
+    const events = await this.auditLog.read(periodStart('month'));
+    const earlierHolds = hold ? this.holds.slice(0, this.holds.indexOf(hold)) : this.holds;
+    return this.limits.filter(limit => {
+      const used = usage(events, limit, userId, channel) + heldUsage(earlierHolds, limit, userId, channel);
+      switch (limit.metric) {
+        case 'generations':
+          return planned.generations > 0 && used + planned.generations > limit.limit;
+        case 'images':
+          return planned.images > 0 && used + planned.images > limit.limit;
+        case 'spend':
+          // The cost of a call is only known afterwards, so stop once the budget is used up
+          return used >= limit.limit;
+      }
+    });
+  }
+
+  private async hasOverride(userId: string, channel: string): Promise<boolean> {
+    for (const target of [userId, channel]) {
+      const override = await this.overrides.get(target);
+      if (override && new Date(override.until) > new Date()) {
+        return true;
+      }
+      if (override) {
+        await this.overrides.delete(target);
+      }
+    }
+    return false;
+  }
+
+  private describe(limit: QuotaLimit): string {
+    const scope = { user: 'Your', channel: "This channel's", global: 'The team-wide' }[limit.scope];
+    const period = limit.period === 'day' ? 'daily' : 'monthly';
+    const metric = { generations: 'generation limit', images: 'image limit', spend: 'model budget' }[limit.metric];
+    return `${scope} ${period} ${metric}`;
+  }
+
+  private adminHint(): string {
+    return this.admins.length > 0
+      ? ` Ask ${this.admins.map(id => `<@${id}>`).join(', ')} if this is urgent.`
+      : '';
+  }
+}
+
+/**
+ * How many images generating screenshots for these steps will request
+ */
+export function plannedImages(steps: KBAStep[]): number {
+  return steps
+    .filter(step => step.imagePrompt && step.osType)
+    .reduce((count, step) => count + (step.osType === 'both' ? 2 : 1), 0);
+}
+
+function parseLimits(value: string): QuotaLimit[] {
+  const limits: QuotaLimit[] = [];
+  for (const entry of value.split(',').map(part => part.trim()).filter(part => part.length > 0)) {
+    const [key, amount] = entry.split('=').map(part => part.trim());
+    const [scope, period, metric] = (key || '').split(':');
+    const limit = parseFloat(amount);
+
+    if (!['user', 'channel', 'global'].includes(scope) ||
+        !['day', 'month'].includes(period) ||
+        !['generations', 'images', 'spend'].includes(metric) ||
+        isNaN(limit)) {
+      throw new Error(`Invalid QUOTAS entry: ${entry}`);
+    }
+    limits.push({ scope: scope as QuotaScope, period: period as QuotaPeriod, metric: metric as QuotaMetric, limit });
+  }
+  return limits;
+}
+
+/**
+ * Start of the current UTC day or month
+ */
+function periodStart(period: QuotaPeriod): Date {
+  const now = new Date();
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * What the scope has reserved of a limit's metric and not audited yet
+ */
+function heldUsage(holds: QuotaHold[], limit: QuotaLimit, userId: string, channel: string): number {
+  if (limit.metric === 'spend') {
+    return 0; // Spend is only known once a call returns
+  }
+
+  return holds
+    .filter(hold =>
+      limit.scope === 'global' ||
+      (limit.scope === 'user' && hold.userId === userId) ||
+      (limit.scope === 'channel' && hold.channel === channel))
+    .reduce((sum, hold) => sum + (limit.metric === 'generations' ? hold.generations : hold.images), 0);
+}
+
+/**
+ * What the scope has used of a limit's metric in the limit's period
+ */
+function usage(events: AuditEvent[], limit: QuotaLimit, userId: string, channel: string): number {
+  const since = periodStart(limit.period);
+  const inScope = events.filter(event =>
+    new Date(event.at) >= since &&
+    (limit.scope === 'global' ||
+      (limit.scope === 'user' && (event.requestedBy || event.userId) === userId) ||
+      (limit.scope === 'channel' && event.channel === channel))
+  );
+
+  switch (limit.metric) {
+    case 'generations':
+      return inScope.filter(event => event.type === 'generation').length;
+    case 'images':
+      return inScope.reduce((sum, event) => sum + (event.type === 'images_generated' ? event.images || 0 : 0), 0);
+    case 'spend':
+      return inScope.reduce((sum, event) => sum + (event.cost || 0), 0);
+  }
+}
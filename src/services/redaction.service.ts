@@ -0,0 +1,383 @@
+import { readFileSync } from 'fs';
+import { JiraTicket, KBAContent, KBADraft, Redaction } from '../types';
+
+interface RedactionRule {
+  name: string; // Placeholder prefix, e.g. "EMAIL" gives [EMAIL_1]
+  label: string; // Shown in Slack and in the published article when not restored
+  pattern: RegExp;
+  secret: boolean;
+}
+
+/**
+ * Rules file (REDACTION_RULES_PATH), e.g.
+ * { "patterns": [{ "name": "tenant_id", "pattern": "TEN-\\d{6}" }],
+ *   "dictionary": { "customer": ["Acme Corp", "Globex"] } }
+ */
+interface RedactionRulesFile {
+  patterns?: { name: string; pattern: string; flags?: string; secret?: boolean }[];
+  dictionary?: Record<string, string[]>;
+}
+
+// Values never start with "[" so placeholders aren't matched again
+const CREDENTIAL_VALUE = `["']?(?!\\[)[^\\s"'<>&,;\\[]{6,}`;
+
+const SECRET_RULES: RedactionRule[] = [
+  { name: 'PRIVATE_KEY', label: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, secret: true },
+  { name: 'JWT', label: 'token', pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g, secret: true },
+  { name: 'AWS_KEY', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, secret: true },
+  { name: 'SLACK_TOKEN', label: 'Slack token', pattern: /\bxox[abposr]-[\w-]{10,}/g, secret: true },
+  { name: 'GITHUB_TOKEN', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{40,})/g, secret: true },
+  { name: 'API_KEY', label: 'API key', pattern: /\bsk-[\w-]{20,}/g, secret: true },
+  { name: 'BEARER_TOKEN', label: 'token', pattern: /(?<=\bBearer\s+)(?!\[)[\w\-.~+/]{15,}[\w\-~+/]=*/gi, secret: true },
+  {
+    name: 'CREDENTIAL',
+    label: 'credential',
+    pattern: new RegExp(`(?<=\\b(?:password|passwd|pwd|secret|client[_-]?secret|api[_-]?key|access[_-]?token|auth[_-]?token|token)\\b\\s*[:=]\\s*)${CREDENTIAL_VALUE}`, 'gi'),
+    secret: true
+  }
+];
+
+const PII_RULES: Record<string, RedactionRule> = {
+  email: { name: 'EMAIL', label: 'email address', pattern: /\b[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, secret: false },
+  ip: {
+    name: 'IP',
+    label: 'IP address',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    secret: false
+  },
+  phone: {
+    name: 'PHONE',
+    label: 'phone number',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+    secret: false
+  }
+};
+
+/**
+ * Replaces personal data and secrets in ticket text with placeholders
+ * such as [EMAIL_1] before anything is sent to a model, and puts the
+ * originals back at publish time where the reviewer allowed it
+ */
+export class RedactionService {
+  private enabled: boolean;
+  private redactPeople: boolean;
+  private rules: RedactionRule[];
+  // Secret value -> placeholder per redaction list, so repeats in one ticket share a placeholder
+  // without the secret being stored in the list (which is persisted with the conversation)
+  private secretPlaceholders = new WeakMap<Redaction[], Map<string, string>>();
+
+  constructor() {
+    this.enabled = process.env.REDACTION_ENABLED !== 'false';
+
+    const disabled = (process.env.REDACTION_DISABLED_RULES || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(name => name.length > 0);
+    this.redactPeople = !disabled.includes('person');
+    const custom = this.loadRulesFile(process.env.REDACTION_RULES_PATH);
+    const terms = (process.env.REDACTION_DICTIONARY || '')
+      .split(',')
+      .map(term => term.trim())
+      .filter(term => term.length > 0);
+
+    // Secrets first so a token inside a URL isn't half-replaced by another rule
+    this.rules = [
+      ...SECRET_RULES,
+      PII_RULES.email,
+      ...custom,
+      ...(terms.length > 0 ? [dictionaryRule('term', terms)] : []),
+      PII_RULES.ip,
+      PII_RULES.phone
+    ].filter(rule => !disabled.includes(rule.name.toLowerCase()));
+  }
+
+  /**
+   * Copy of the ticket with every free-text field, the people on it and
+   * its custom fields redacted. The names of the assignee, reporter and
+   * authors become [PERSON_n] wherever they appear. New placeholders are
+   * appended to `redactions`.
+   */
+  redactTicket(ticket: JiraTicket, redactions: Redaction[]): JiraTicket {
+    if (!this.enabled) {
+      return ticket;
+    }
+
+    const people = this.redactPeople ? peopleRule(ticket) : undefined;
+    const redact = (text: string) => {
+      const redacted = this.redactText(text, redactions);
+      return people ? this.applyRule(people, redacted, redactions) : redacted;
+    };
+    const redactIssue = <T extends { summary: string; description?: string }>(issue: T): T => ({
+      ...issue,
+      summary: redact(issue.summary),
+      description: issue.description && redact(issue.description)
+    });
+
+    return {
+      ...ticket,
+      summary: redact(ticket.summary),
+      description: redact(ticket.description),
+      descriptionStorage: ticket.descriptionStorage && redact(ticket.descriptionStorage),
+      assignee: ticket.assignee && redact(ticket.assignee),
+      reporter: ticket.reporter && redact(ticket.reporter),
+      comments: ticket.comments?.map(comment => ({
+        ...comment,
+        author: redact(comment.author),
+        body: redact(comment.body),
+        bodyStorage: comment.bodyStorage && redact(comment.bodyStorage)
+      })),
+      attachmentTexts: ticket.attachmentTexts?.map(text => ({ ...text, content: redact(text.content) })),
+      linkedIssues: ticket.linkedIssues?.map(redactIssue),
+      subtasks: ticket.subtasks?.map(redactIssue),
+      changelog: ticket.changelog?.map(entry => ({
+        ...entry,
+        author: redact(entry.author),
+        from: entry.from && redact(entry.from),
+        to: entry.to && redact(entry.to)
+      })),
+      customFields: ticket.customFields && mapStrings(ticket.customFields, redact)
+    };
+  }
+
+  /**
+   * Replace matches with placeholders, reusing the placeholder of a value
+   * seen before so the model can tell repeated mentions apart
+   */
+  redactText(text: string, redactions: Redaction[]): string {
+    if (!this.enabled || !text) {
+      return text;
+    }
+
+    let redacted = text;
+    for (const rule of this.rules) {
+      redacted = this.applyRule(rule, redacted, redactions);
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact article text written or edited by a person before it goes back
+   * to the model for a revision
+   */
+  redactContent(content: KBAContent, redactions: Redaction[]): KBAContent {
+    return mapContent(content, text => this.redactText(text, redactions));
+  }
+
+  /**
+   * The draft as it should be published: placeholders the reviewer allowed
+   * get their original value, the rest become a neutral "[redacted ...]"
+   */
+  restoreDraft(draft: KBADraft): KBADraft {
+    const redactions = draft.redactions || [];
+    if (redactions.length === 0) {
+      return draft;
+    }
+
+    const restore = (text: string) => this.restoreText(text, redactions);
+    return {
+      ...draft,
+      content: mapContent(draft.content, restore),
+      jiraTicket: {
+        ...draft.jiraTicket,
+        summary: restore(draft.jiraTicket.summary),
+        description: restore(draft.jiraTicket.description),
+        descriptionStorage: draft.jiraTicket.descriptionStorage && restore(draft.jiraTicket.descriptionStorage),
+        comments: draft.jiraTicket.comments?.map(comment => ({
+          ...comment,
+          author: restore(comment.author),
+          body: restore(comment.body),
+          bodyStorage: comment.bodyStorage && restore(comment.bodyStorage)
+        }))
+      }
+    };
+  }
+
+  private applyRule(rule: RedactionRule, text: string, redactions: Redaction[]): string {
+    if (!text) {
+      return text;
+    }
+
+    let secrets = this.secretPlaceholders.get(redactions);
+    if (!secrets) {
+      secrets = new Map<string, string>();
+      this.secretPlaceholders.set(redactions, secrets);
+    }
+
+    return text.replace(rule.pattern, value => {
+      const existing = rule.secret
+        ? secrets!.get(`${rule.name}:${value}`)
+        : redactions.find(r => r.rule === rule.name && r.value === value)?.placeholder;
+      if (existing) {
+        return existing;
+      }
+      const count = redactions.filter(r => r.rule === rule.name).length;
+      const placeholder = `[${rule.name}_${count + 1}]`;
+      if (rule.secret) {
+        secrets!.set(`${rule.name}:${value}`, placeholder);
+        redactions.push({ placeholder, rule: rule.name, secret: true });
+      } else {
+        redactions.push({ placeholder, value, rule: rule.name, secret: false });
+      }
+      return placeholder;
+    });
+  }
+
+  private restoreText(text: string, redactions: Redaction[]): string {
+    let restored = text;
+    for (const redaction of redactions) {
+      const replacement = redaction.restore && !redaction.secret && redaction.value !== undefined
+        ? redaction.value
+        : `[redacted ${this.ruleLabel(redaction.rule)}]`;
+      restored = restored.split(redaction.placeholder).join(replacement);
+    }
+    return restored;
+  }
+
+  /**
+   * Redactions whose placeholder appears in the draft's article or the
+   * ticket description and comments published with it
+   */
+  redactionsInDraft(draft: KBADraft): Redaction[] {
+    const text = JSON.stringify(draft.content) + draft.jiraTicket.description +
+      (draft.jiraTicket.comments || []).map(comment => `${comment.author}\n${comment.body}`).join('\n');
+    return (draft.redactions || []).filter(redaction => text.includes(redaction.placeholder));
+  }
+
+  /**
+   * Labels of the secret rules that match, for the last check before
+   * anything is published. Runs even when redaction is turned off.
+   */
+  findSecrets(text: string): string[] {
+    const found = new Set<string>();
+    for (const rule of this.rules.filter(rule => rule.secret)) {
+      rule.pattern.lastIndex = 0;
+      if (rule.pattern.test(text)) {
+        found.add(rule.label);
+      }
+    }
+    return Array.from(found);
+  }
+
+  /**
+   * Throw if the text contains anything that looks like a secret
+   */
+  assertNoSecrets(text: string): void {
+    const secrets = this.findSecrets(text);
+    if (secrets.length > 0) {
+      throw new Error(`Blocked: the article appears to contain a ${secrets.join(', ')}. Edit the draft to remove it.`);
+    }
+  }
+
+  ruleLabel(ruleName: string): string {
+    return this.rules.find(rule => rule.name === ruleName)?.label || ruleName.toLowerCase().replace(/_/g, ' ');
+  }
+
+  private loadRulesFile(rulesPath?: string): RedactionRule[] {
+    if (!rulesPath) {
+      return [];
+    }
+
+    let file: RedactionRulesFile;
+    try {
+      file = JSON.parse(readFileSync(rulesPath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read redaction rules from ${rulesPath}: ${error.message}`);
+    }
+
+    const patterns = (file.patterns || []).map(rule => ({
+      name: rule.name.toUpperCase(),
+      label: rule.name.toLowerCase().replace(/_/g, ' '),
+      pattern: new RegExp(rule.pattern, (rule.flags || '').replace('g', '') + 'g'),
+      secret: rule.secret === true
+    }));
+    const dictionaries = Object.entries(file.dictionary || {})
+      .map(([name, terms]) => dictionaryRule(name, terms));
+
+    return [...patterns, ...dictionaries];
+  }
+}
+
+/**
+ * Case-insensitive whole-word match on any of the terms, longest first
+ */
+function dictionaryRule(name: string, terms: string[]): RedactionRule {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return {
+    name: name.toUpperCase(),
+    label: name.toLowerCase().replace(/_/g, ' '),
+    pattern: new RegExp(`(?<!\\w)(?:${alternatives.join('|')})(?!\\w)`, 'gi'),
+    secret: false
+  };
+}
+
+/**
+ * A rule for the names of the people on a ticket, or undefined if it names nobody
+ */
+function peopleRule(ticket: JiraTicket): RedactionRule | undefined {
+  const names = [
+    ticket.assignee,
+    ticket.reporter,
+    ...(ticket.comments || []).map(comment => comment.author),
+    ...(ticket.changelog || []).map(entry => entry.author),
+    ...userNames(ticket.customFields)
+  ].filter((name): name is string => !!name && name.trim().length > 0 && name !== 'Unknown');
+
+  return names.length > 0 ? dictionaryRule('person', Array.from(new Set(names.map(name => name.trim())))) : undefined;
+}
+
+/**
+ * Display names of the users in Jira field values, e.g. a user picker custom field
+ */
+function userNames(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(userNames);
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  return [
+    ...(typeof value.displayName === 'string' ? [value.displayName] : []),
+    ...Object.values(value).flatMap(userNames)
+  ];
+}
+
+/**
+ * Apply a text transform to every string in a JSON value
+ */
+function mapStrings(value: any, transform: (text: string) => string): any {
+  if (typeof value === 'string') {
+    return transform(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, transform));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+}
+
+/**
+ * Apply a text transform to every free-text field of an article
+ */
+function mapContent(content: KBAContent, transform: (text: string) => string): KBAContent {
+  return {
+    ...content,
+    title: transform(content.title),
+    problem: transform(content.problem),
+    solution: transform(content.solution),
+    additionalNotes: content.additionalNotes && transform(content.additionalNotes),
+    steps: content.steps.map(step => ({
+      ...step,
+      description: transform(step.description),
+      codeSnippet: step.codeSnippet && transform(step.codeSnippet),
+      imagePrompt: step.imagePrompt && transform(step.imagePrompt)
+    })),
+    tags: content.tags.map(transform),
+    sections: content.sections && Object.fromEntries(
+      Object.entries(content.sections).map(([key, text]) => [key, transform(text)])
+    )
+  };
+}
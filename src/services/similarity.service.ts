@@ -0,0 +1,108 @@
+import OpenAI from 'openai';
+import { JiraTicket, SimilarArticle } from '../types';
+import { ConfluenceService, PageSearchResult } from './confluence.service';
+import { keywords, textSimilarity, vectorSimilarity } from '../utils/similarity';
+
+const SEARCH_KEYWORDS = 6;
+const DESCRIPTION_CHARS = 1000;
+
+/**
+ * Finds existing KBAs that cover the same problem as a ticket
+ */
+export class SimilarityService {
+  private enabled: boolean;
+  private minScore: number;
+  private maxResults: number;
+  private embeddingModel: string | null;
+  private embeddingClient: OpenAI | null = null;
+
+  constructor(private confluenceService: ConfluenceService) {
+    this.enabled = process.env.SIMILAR_KBA_DETECTION !== 'false';
+    this.minScore = parseFloat(process.env.SIMILAR_KBA_MIN_SCORE || '0.3');
+    this.maxResults = parseInt(process.env.SIMILAR_KBA_MAX_RESULTS || '3', 10);
+
+    // Embeddings are optional; by default they go to the self-hosted
+    // endpoint so ticket text doesn't leave our infrastructure
+    this.embeddingModel = process.env.SIMILAR_KBA_EMBEDDING_MODEL || null;
+    const baseURL = process.env.SIMILAR_KBA_EMBEDDING_BASE_URL || process.env.LOCAL_LLM_BASE_URL;
+    if (this.embeddingModel && baseURL) {
+      this.embeddingClient = new OpenAI({
+        baseURL,
+        apiKey: process.env.SIMILAR_KBA_EMBEDDING_API_KEY || process.env.LOCAL_LLM_API_KEY || 'local'
+      });
+    }
+  }
+
+  /**
+   * Best-matching pages in the space, most similar first. Never throws:
+   * a failed search just means no suggestions.
+   */
+  async findSimilar(ticket: JiraTicket, excludePageIds: string[] = []): Promise<SimilarArticle[]> {
+    if (!this.enabled) {
+      return [];
+    }
+
+    try {
+      const labels = ticket.labels || [];
+      const candidates = (await this.confluenceService.searchPages(
+        keywords(ticket.summary, SEARCH_KEYWORDS),
+        labels
+      )).filter(page => !excludePageIds.includes(page.id));
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const query = `${ticket.summary}\n${labels.join(' ')}\n${ticket.description.slice(0, DESCRIPTION_CHARS)}`;
+      const scores = await this.score(ticket, query, candidates);
+
+      return candidates
+        .map((page, index) => ({
+          id: page.id,
+          title: page.title,
+          url: page.url,
+          excerpt: page.excerpt || undefined,
+          score: scores[index]
+        }))
+        .filter(article => article.score >= this.minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, this.maxResults);
+    } catch (error) {
+      console.error('Similar article detection failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Embedding similarity when configured, otherwise word overlap
+   */
+  private async score(ticket: JiraTicket, query: string, candidates: PageSearchResult[]): Promise<number[]> {
+    const labels = ticket.labels || [];
+    const texts = candidates.map(page => `${page.title}\n${page.labels.join(' ')}\n${page.excerpt}`);
+
+    if (this.embeddingClient && this.embeddingModel) {
+      try {
+        const response = await this.embeddingClient.embeddings.create({
+          model: this.embeddingModel,
+          input: [query, ...texts]
+        });
+        const [queryVector, ...vectors] = response.data
+          .sort((a, b) => a.index - b.index)
+          .map(item => item.embedding);
+        return vectors.map(vector => vectorSimilarity(queryVector, vector));
+      } catch (error: any) {
+        console.error('Embedding request failed, falling back to word overlap:', error.message);
+      }
+    }
+
+    return candidates.map((page, index) => {
+      // Titles are the strongest signal for a KBA, and shared labels are
+      // a deliberate categorization, so both count extra
+      const titleScore = textSimilarity(ticket.summary, page.title);
+      const bodyScore = textSimilarity(query, texts[index]);
+      const sharedLabels = page.labels.filter(label => labels.includes(label)).length;
+      const labelScore = labels.length > 0 ? sharedLabels / labels.length : 0;
+      return Math.min(1, 0.5 * titleScore + 0.3 * bodyScore + 0.2 * labelScore);
+    });
+  }
+}
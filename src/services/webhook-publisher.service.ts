@@ -0,0 +1,70 @@
+import { AxiosInstance } from 'axios';
+import { GeneratedImage, KBADraft } from '../types';
+import { KBAPublisher, PublishOptions, PublishResult } from './publisher';
+import { imageFilename, renderHTML, renderMarkdown } from '../utils/kba-export';
+import { createHttpClient } from './http-client';
+
+/**
+ * Posts the rendered article as JSON to an HTTP endpoint. The POST is not
+ * retried, since the receiver may have taken it before the connection failed.
+ */
+export class WebhookPublisher implements KBAPublisher {
+  readonly name = 'webhook';
+  private url: string;
+  private token: string;
+  private includeImages: boolean;
+  private client: AxiosInstance;
+
+  constructor() {
+    this.url = process.env.WEBHOOK_PUBLISH_URL || '';
+    this.token = process.env.WEBHOOK_PUBLISH_TOKEN || '';
+    this.includeImages = process.env.WEBHOOK_PUBLISH_INCLUDE_IMAGES === 'true';
+    this.client = createHttpClient('Webhook', 'WEBHOOK', {});
+  }
+
+  async publish(draft: KBADraft, options: PublishOptions): Promise<PublishResult> {
+    if (!this.url) {
+      throw new Error('WEBHOOK_PUBLISH_URL is not set');
+    }
+
+    const { jiraTicket, content, images } = draft;
+    const markdown = renderMarkdown(draft);
+    options.assertNoSecrets(markdown);
+
+    const imageData = new Map<GeneratedImage, Buffer>();
+    if (this.includeImages) {
+      for (const image of images) {
+        const data = await options.loadImage(image);
+        if (data) {
+          imageData.set(image, data);
+        }
+      }
+    }
+
+    const payload = {
+      jiraKey: jiraTicket.key,
+      jiraUrl: `${process.env.JIRA_HOST}/browse/${jiraTicket.key}`,
+      title: content.title,
+      content,
+      markdown,
+      html: renderHTML(draft, imageData),
+      images: images.map(image => ({
+        stepNumber: image.stepNumber,
+        filename: imageFilename(image),
+        mimeType: image.mimeType || 'image/png',
+        data: imageData.get(image)?.toString('base64')
+      })),
+      requestedBy: options.requesterName,
+      approvedBy: options.approverName,
+      publishedAt: new Date().toISOString()
+    };
+
+    const response = await this.client.post(this.url, payload, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {}
+    });
+
+    // Receivers may answer with where they put the article
+    const url = typeof response.data?.url === 'string' ? response.data.url : undefined;
+    return { publisher: this.name, url, detail: `delivered (HTTP ${response.status})` };
+  }
+}
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ModelUsage } from '../services/model-provider';
+
+export type AuditEventType =
+  | 'ticket_fetched'
+  | 'questions_asked'
+  | 'answer_received'
+  | 'generation'
+  | 'images_generated'
+  | 'approval'
+  | 'published'
+  | 'cancelled';
+
+/**
+ * One thing the bot did. `conversation` ties the events of one KBA
+ * together (the context key, or "batch:<id>:<ticket>" for batch drafts).
+ */
+export interface AuditEvent {
+  type: AuditEventType;
+  at: string; // ISO timestamp
+  userId: string; // Who triggered the event
+  channel: string;
+  ticketKey: string;
+  conversation: string;
+  requestedBy?: string; // Who asked for the KBA, so spend can be attributed to them
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  images?: number;
+  latencyMs?: number;
+  cost?: number; // Estimated USD
+  detail?: string;
+}
+
+/**
+ * Append-only record of workflow events. Appending never throws, so a
+ * full disk can't interrupt a KBA.
+ */
+export interface AuditLog {
+  append(event: Omit<AuditEvent, 'at'>): Promise<void>;
+  read(since?: Date): Promise<AuditEvent[]>;
+}
+
+/**
+ * Keeps events in process memory (lost on restart)
+ */
+export class InMemoryAuditLog implements AuditLog {
+  private events: AuditEvent[] = [];
+
+  async append(event: Omit<AuditEvent, 'at'>): Promise<void> {
+    this.events.push({ ...event, at: new Date().toISOString() });
+  }
+
+  async read(since?: Date): Promise<AuditEvent[]> {
+    return this.events.filter(event => !since || new Date(event.at) >= since);
+  }
+}
+
+/**
+ * Appends events as JSON lines, so the file is never rewritten
+ */
+export class FileAuditLog implements AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  append(event: Omit<AuditEvent, 'at'>): Promise<void> {
+    const line = JSON.stringify({ ...event, at: new Date().toISOString() }) + '\n';
+    const write = async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line, 'utf8');
+      } catch (error: any) {
+        console.error(`Failed to write audit log ${this.filePath}:`, error.message);
+      }
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+
+  async read(since?: Date): Promise<AuditEvent[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to read audit log ${this.filePath}:`, error.message);
+      }
+      return [];
+    }
+
+    const events: AuditEvent[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const event: AuditEvent = JSON.parse(line);
+        if (!since || new Date(event.at) >= since) {
+          events.push(event);
+        }
+      } catch {
+        // A line cut short by a crash; skip it
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * Audit fields for the model calls behind one event, summed
+ */
+export function usageFields(usages: ModelUsage[]): Partial<AuditEvent> {
+  if (usages.length === 0) {
+    return {};
+  }
+
+  return {
+    model: Array.from(new Set(usages.map(usage => usage.model))).join(', '),
+    promptTokens: usages.reduce((sum, usage) => sum + usage.promptTokens, 0),
+    completionTokens: usages.reduce((sum, usage) => sum + usage.completionTokens, 0),
+    images: usages.reduce((sum, usage) => sum + usage.images, 0),
+    latencyMs: usages.reduce((sum, usage) => sum + usage.latencyMs, 0),
+    cost: usages.reduce((sum, usage) => sum + usage.cost, 0)
+  };
+}
+
+/**
+ * Create the audit log selected by AUDIT_LOG (file or memory)
+ */
+export function createAuditLog(): AuditLog {
+  const backend = process.env.AUDIT_LOG || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryAuditLog();
+    case 'file':
+      return new FileAuditLog(process.env.AUDIT_LOG_PATH || path.join(process.cwd(), 'data', 'audit.jsonl'));
+    default:
+      throw new Error(`Unknown AUDIT_LOG backend: ${backend}`);
+  }
+}
@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConversationContext } from '../types';
+
+/**
+ * Storage backend for in-flight KBA conversations (and batch queues)
+ */
+export interface ContextStore<T = ConversationContext> {
+  get(contextKey: string): Promise<T | undefined>;
+  set(contextKey: string, context: T): Promise<void>;
+  delete(contextKey: string): Promise<void>;
+  entries(): Promise<[string, T][]>;
+}
+
+/**
+ * Keeps contexts in process memory (lost on restart)
+ */
+export class InMemoryContextStore<T = ConversationContext> implements ContextStore<T> {
+  private contexts: Map<string, T> = new Map();
+
+  async get(contextKey: string): Promise<T | undefined> {
+    return this.contexts.get(contextKey);
+  }
+
+  async set(contextKey: string, context: T): Promise<void> {
+    this.contexts.set(contextKey, context);
+  }
+
+  async delete(contextKey: string): Promise<void> {
+    this.contexts.delete(contextKey);
+  }
+
+  async entries(): Promise<[string, T][]> {
+    return Array.from(this.contexts.entries());
+  }
+}
+
+/**
+ * Persists contexts to a JSON file on disk so they survive restarts
+ */
+export class FileContextStore<T = ConversationContext> implements ContextStore<T> {
+  private contexts: Map<string, T> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(contextKey: string): Promise<T | undefined> {
+    const contexts = await this.load();
+    return contexts.get(contextKey);
+  }
+
+  async set(contextKey: string, context: T): Promise<void> {
+    const contexts = await this.load();
+    contexts.set(contextKey, context);
+    await this.flush();
+  }
+
+  async delete(contextKey: string): Promise<void> {
+    const contexts = await this.load();
+    if (contexts.delete(contextKey)) {
+      await this.flush();
+    }
+  }
+
+  async entries(): Promise<[string, T][]> {
+    const contexts = await this.load();
+    return Array.from(contexts.entries());
+  }
+
+  /**
+   * Read the backing file once and cache it in memory
+   */
+  private async load(): Promise<Map<string, T>> {
+    if (this.contexts) {
+      return this.contexts;
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed: Record<string, T> = JSON.parse(raw);
+      this.contexts = new Map(Object.entries(parsed));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to read context store ${this.filePath}:`, error.message);
+      }
+      this.contexts = new Map();
+    }
+
+    return this.contexts;
+  }
+
+  /**
+   * Write the cache to disk, serialized so concurrent writes don't interleave
+   */
+  private flush(): Promise<void> {
+    const write = async () => {
+      const data = JSON.stringify(Object.fromEntries(this.contexts!), null, 2);
+      const tmpPath = `${this.filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, data, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create the context store selected by CONTEXT_STORE.
+ * The file backend reads its path from `pathVar`, falling back to `data/<defaultFile>`.
+ */
+export function createContextStore<T = ConversationContext>(
+  pathVar: string = 'CONTEXT_STORE_PATH',
+  defaultFile: string = 'contexts.json'
+): ContextStore<T> {
+  const backend = process.env.CONTEXT_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryContextStore<T>();
+    case 'file':
+      return new FileContextStore<T>(
+        process.env[pathVar] || path.join(process.cwd(), 'data', defaultFile)
+      );
+    default:
+      throw new Error(`Unknown CONTEXT_STORE backend: ${backend}`);
+  }
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import axios from 'axios';
+import { GeneratedImage } from '../types';
+
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+/**
+ * Content-addressed store for screenshot bytes, so drafts don't depend on
+ * generated image URLs that expire after about an hour. Files are named by
+ * the SHA-256 of their contents; identical images are stored once.
+ */
+export class ImageCache {
+  private retentionMs: number;
+
+  constructor(private dir: string, retentionDays: number) {
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Store image bytes and return the cache file name
+   */
+  async store(data: Buffer, mimeType: string = 'image/png'): Promise<string> {
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const file = `${hash}.${EXTENSIONS[mimeType] || 'png'}`;
+    const filePath = path.join(this.dir, file);
+
+    await fs.mkdir(this.dir, { recursive: true });
+    try {
+      // Already cached; refresh its age instead of rewriting it
+      const now = new Date();
+      await fs.utimes(filePath, now, now);
+    } catch {
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data);
+      await fs.rename(tmpPath, filePath);
+    }
+    return file;
+  }
+
+  /**
+   * Image bytes for a cache file name, or null if it's gone
+   */
+  async read(file: string): Promise<Buffer | null> {
+    // Names come from stored drafts, so refuse anything that isn't a plain hash file name
+    if (!/^[a-f0-9]{64}\.\w+$/.test(file)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(path.join(this.dir, file));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to read cached image ${file}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Download generated images into the cache and record where they are.
+   * Images that fail keep only their URL; the preview warns about them.
+   */
+  async cacheImages(images: GeneratedImage[]): Promise<GeneratedImage[]> {
+    return Promise.all(images.map(async image => {
+      if (image.cachedFile || image.source === 'jira') {
+        return image;
+      }
+
+      try {
+        const response = await axios.get(image.url, {
+          responseType: 'arraybuffer',
+          timeout: DOWNLOAD_TIMEOUT_MS
+        });
+        const mimeType = String(response.headers['content-type'] || '').split(';')[0] || undefined;
+        return { ...image, cachedFile: await this.store(Buffer.from(response.data), mimeType) };
+      } catch (error: any) {
+        console.error(`Failed to cache image for step ${image.stepNumber}:`, error.message);
+        return image;
+      }
+    }));
+  }
+
+  /**
+   * Delete files older than the retention period that no open draft uses.
+   * Returns how many were removed.
+   */
+  async cleanup(inUse: Set<string>): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to list image cache ${this.dir}:`, error.message);
+      }
+      return 0;
+    }
+
+    let removed = 0;
+    const cutoff = Date.now() - this.retentionMs;
+    for (const file of files) {
+      if (inUse.has(file)) {
+        continue;
+      }
+      try {
+        const filePath = path.join(this.dir, file);
+        if ((await fs.stat(filePath)).mtimeMs < cutoff) {
+          await fs.unlink(filePath);
+          removed++;
+        }
+      } catch (error: any) {
+        console.error(`Failed to remove cached image ${file}:`, error.message);
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Create the image cache configured by IMAGE_CACHE_DIR and IMAGE_CACHE_RETENTION_DAYS
+ */
+export function createImageCache(): ImageCache {
+  return new ImageCache(
+    process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), 'data', 'images'),
+    parseFloat(process.env.IMAGE_CACHE_RETENTION_DAYS || '14')
+  );
+}
@@ -0,0 +1,195 @@
+import { JiraTicket, KBAContent } from '../types';
+
+/**
+ * Fields every KBA has, whatever its template
+ */
+export type CoreSection = 'problem' | 'solution' | 'steps' | 'additionalNotes';
+
+/**
+ * A template-specific section, stored in `KBAContent.sections`
+ */
+export interface TemplateSection {
+  key: string;
+  heading: string;
+  instruction: string; // What the model should write here
+  optional?: boolean;
+}
+
+export interface KBATemplate {
+  id: string;
+  name: string;
+  issueTypes: string[]; // Matched case-insensitively against the ticket's issue type
+  headings: Record<CoreSection, string>;
+  sections: TemplateSection[];
+  promptFragment: string;
+  layout: string[]; // Page order: core section names and template section keys
+}
+
+export interface LayoutEntry {
+  key: string;
+  heading: string;
+  core: boolean;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const KBA_TEMPLATES: KBATemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Troubleshooting guide',
+    issueTypes: [],
+    headings: {
+      problem: 'Problem',
+      solution: 'Solution',
+      steps: 'Step-by-Step Instructions',
+      additionalNotes: 'Additional Notes'
+    },
+    sections: [],
+    promptFragment: '',
+    layout: ['problem', 'solution', 'steps', 'additionalNotes']
+  },
+  {
+    id: 'how-to',
+    name: 'How-to',
+    issueTypes: ['Service Request', 'Task', 'Story'],
+    headings: {
+      problem: 'Goal',
+      solution: 'Overview',
+      steps: 'Instructions',
+      additionalNotes: 'Additional Notes'
+    },
+    sections: [
+      { key: 'prerequisites', heading: 'Before You Start', instruction: 'Access, permissions, software or information needed before starting' },
+      { key: 'verification', heading: 'How to Verify', instruction: 'How the reader can confirm the task worked', optional: true }
+    ],
+    promptFragment: 'This is a how-to article: it teaches the reader to complete a task, not to fix a fault. ' +
+      '"problem" states what the reader wants to achieve and "solution" summarizes the approach.',
+    layout: ['problem', 'prerequisites', 'solution', 'steps', 'verification', 'additionalNotes']
+  },
+  {
+    id: 'known-error',
+    name: 'Known error / workaround',
+    issueTypes: ['Bug', 'Defect', 'Problem', 'Known Error'],
+    headings: {
+      problem: 'Symptoms',
+      solution: 'Workaround',
+      steps: 'Workaround Steps',
+      additionalNotes: 'Additional Notes'
+    },
+    sections: [
+      { key: 'affected', heading: 'Affected Environments', instruction: 'Products, versions, operating systems or user groups affected', optional: true },
+      { key: 'cause', heading: 'Cause', instruction: 'The known or suspected root cause' },
+      { key: 'permanentFix', heading: 'Permanent Fix', instruction: 'Whether a permanent fix exists or is planned, with ticket or release references if known' }
+    ],
+    promptFragment: 'This is a known error record: a defect that is understood but may not be fixed yet. ' +
+      '"problem" describes the symptoms users see and "solution" describes the workaround.',
+    layout: ['problem', 'affected', 'cause', 'solution', 'steps', 'permanentFix', 'additionalNotes']
+  },
+  {
+    id: 'faq',
+    name: 'FAQ entry',
+    issueTypes: ['Question', 'FAQ'],
+    headings: {
+      problem: 'Question',
+      solution: 'Answer',
+      steps: 'Details',
+      additionalNotes: 'Additional Notes'
+    },
+    sections: [
+      { key: 'relatedQuestions', heading: 'Related Questions', instruction: 'Other questions readers commonly ask alongside this one, one per line', optional: true }
+    ],
+    promptFragment: 'This is an FAQ entry. "problem" is the question phrased the way users ask it, ' +
+      '"solution" is a short direct answer, and "steps" holds any details or instructions behind the answer.',
+    layout: ['problem', 'solution', 'steps', 'relatedQuestions', 'additionalNotes']
+  },
+  {
+    id: 'post-mortem',
+    name: 'Incident post-mortem',
+    issueTypes: ['Incident', 'Post-incident review'],
+    headings: {
+      problem: 'Summary',
+      solution: 'Resolution',
+      steps: 'Remediation Steps',
+      additionalNotes: 'Additional Notes'
+    },
+    sections: [
+      { key: 'impact', heading: 'Impact', instruction: 'Who and what was affected, for how long, and how badly' },
+      { key: 'timeline', heading: 'Timeline', instruction: 'Key events from detection to resolution with timestamps, one per line' },
+      { key: 'rootCause', heading: 'Root Cause', instruction: 'What caused the incident and why it was not caught earlier' },
+      { key: 'lessonsLearned', heading: 'Lessons Learned', instruction: 'What went well, what went badly, and where we got lucky', optional: true },
+      { key: 'followUps', heading: 'Follow-up Actions', instruction: 'Actions to prevent recurrence, with owners or tickets if known, one per line' }
+    ],
+    promptFragment: 'This is a blameless incident post-mortem. "problem" summarizes the incident, ' +
+      '"solution" explains how service was restored, and "steps" lists what responders did to remediate it. ' +
+      'Use the ticket history for the timeline.',
+    layout: ['problem', 'impact', 'timeline', 'rootCause', 'solution', 'steps', 'lessonsLearned', 'followUps', 'additionalNotes']
+  }
+];
+
+/**
+ * Look up a template, falling back to the default for unknown or missing ids
+ */
+export function getTemplate(templateId?: string): KBATemplate {
+  return KBA_TEMPLATES.find(template => template.id === templateId) || KBA_TEMPLATES[0];
+}
+
+/**
+ * Pick a template for a ticket. KBA_TEMPLATE_PROJECTS and
+ * KBA_TEMPLATE_ISSUE_TYPES (e.g. "OPS=post-mortem,HELP=faq") take
+ * precedence over each template's built-in issue types.
+ */
+export function selectTemplate(ticket: JiraTicket): KBATemplate {
+  const project = ticket.key.split('-')[0].toUpperCase();
+  const issueType = ticket.issueType.toLowerCase();
+
+  const byProject = parseMapping(process.env.KBA_TEMPLATE_PROJECTS).get(project.toLowerCase());
+  if (byProject) {
+    return getTemplate(byProject);
+  }
+
+  const byIssueType = parseMapping(process.env.KBA_TEMPLATE_ISSUE_TYPES).get(issueType);
+  if (byIssueType) {
+    return getTemplate(byIssueType);
+  }
+
+  return KBA_TEMPLATES.find(template =>
+    template.issueTypes.some(type => type.toLowerCase() === issueType)
+  ) || KBA_TEMPLATES[0];
+}
+
+/**
+ * The sections a template puts on the page, in order
+ */
+export function templateLayout(template: KBATemplate): LayoutEntry[] {
+  return template.layout.map(key => {
+    if (key in template.headings) {
+      return { key, heading: template.headings[key as CoreSection], core: true };
+    }
+    const section = template.sections.find(s => s.key === key);
+    return { key, heading: section?.heading || key, core: false };
+  });
+}
+
+/**
+ * Text of a non-step section, or undefined if the KBA doesn't have it
+ */
+export function sectionText(content: KBAContent, entry: LayoutEntry): string | undefined {
+  if (!entry.core) {
+    return content.sections?.[entry.key] || undefined;
+  }
+  if (entry.key === 'problem' || entry.key === 'solution' || entry.key === 'additionalNotes') {
+    return content[entry.key] || undefined;
+  }
+  return undefined;
+}
+
+function parseMapping(value?: string): Map<string, string> {
+  const mapping = new Map<string, string>();
+  for (const pair of (value || '').split(',')) {
+    const [from, to] = pair.split('=').map(part => part.trim());
+    if (from && to) {
+      mapping.set(from.toLowerCase(), to);
+    }
+  }
+  return mapping;
+}
@@ -1,7 +1,8 @@
 export interface JiraTicket {
   key: string;
   summary: string;
-  description: string;
+  description: string; // Markdown
+  descriptionStorage?: string; // Confluence storage format
   issueType: string;
   priority: string;
   status: string;
@@ -10,16 +11,54 @@ export interface JiraTicket {
   created: string;
   updated: string;
   comments?: JiraComment[];
+  attachments?: JiraAttachment[];
+  attachmentTexts?: JiraAttachmentText[];
+  linkedIssues?: JiraRelatedIssue[];
+  subtasks?: JiraRelatedIssue[];
+  changelog?: JiraChangelogEntry[];
   resolution?: string;
+  labels?: string[];
   customFields?: Record<string, any>;
 }
 
 export interface JiraComment {
   author: string;
-  body: string;
+  body: string; // Markdown
+  bodyStorage?: string; // Confluence storage format
   created: string;
 }
 
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentUrl: string;
+}
+
+export interface JiraAttachmentText {
+  filename: string;
+  content: string;
+}
+
+export interface JiraRelatedIssue {
+  key: string;
+  relationship: string; // e.g. "is caused by", "subtask"
+  summary: string;
+  status: string;
+  resolution?: string;
+  issueType?: string;
+  description?: string; // Truncated Markdown
+}
+
+export interface JiraChangelogEntry {
+  author: string;
+  created: string;
+  field: string;
+  from?: string;
+  to?: string;
+}
+
 export interface KBAContent {
   title: string;
   problem: string;
@@ -27,6 +66,8 @@ export interface KBAContent {
   steps: KBAStep[];
   additionalNotes?: string;
   tags: string[];
+  template?: string; // Template id; unset means the default troubleshooting layout
+  sections?: Record<string, string>; // Template-specific sections, keyed by section key
 }
 
 export interface KBAStep {
@@ -40,15 +81,61 @@ export interface KBAStep {
 export interface GeneratedImage {
   stepNumber: number;
   url: string;
-  osType: 'mac' | 'windows';
+  osType?: 'mac' | 'windows'; // Unset for real screenshots
   prompt: string;
+  basePrompt?: string; // The step's prompt before OS and style details were added
+  source?: 'generated' | 'jira' | 'upload';
+  cachedFile?: string; // File name in the local image cache; unset if caching failed
+  attachmentId?: string;
+  slackFileId?: string; // Screenshot uploaded to the Slack thread
+  filename?: string;
+  mimeType?: string;
+}
+
+export interface KBASectionChange {
+  section: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ConfluencePageRef {
+  id: string;
+  title: string;
+  url: string;
+}
+
+export interface SimilarArticle extends ConfluencePageRef {
+  score: number; // 0-1
+  excerpt?: string;
+}
+
+export interface Redaction {
+  placeholder: string; // e.g. "[EMAIL_1]"
+  value?: string; // Original text; never kept for secrets
+  rule: string;
+  secret: boolean; // Secrets are never restored
+  restore?: boolean; // Reviewer allowed the original value back into the published article
+}
+
+/**
+ * A mockup that could not be generated, listed in the preview
+ */
+export interface ImageFailure {
+  stepNumber: number;
+  osType: 'mac' | 'windows';
+  error: string;
 }
 
 export interface KBADraft {
   jiraTicket: JiraTicket;
   content: KBAContent;
   images: GeneratedImage[];
+  failedImages?: ImageFailure[];
   confluencePageId?: string;
+  publishedTo?: string[]; // Publishers that already have this draft
+  redactions?: Redaction[];
+  requestedBy?: string; // Slack user ID
+  approvals?: string[]; // Slack user IDs; cleared whenever the content changes
 }
 
 export interface ConversationContext {
@@ -57,7 +144,40 @@ export interface ConversationContext {
   userId: string;
   jiraTicket?: JiraTicket;
   kbaDraft?: KBADraft;
-  stage: 'initial' | 'analyzing' | 'asking_questions' | 'generating' | 'review' | 'complete';
+  existingPage?: ConfluencePageRef;
+  similarArticles?: SimilarArticle[];
+  targetPageId?: string;
+  baseArticle?: string; // Plain text of the KBA being extended
+  templateId?: string;
+  redactions?: Redaction[]; // Values replaced by placeholders before anything reached the model
+  stage: 'initial' | 'analyzing' | 'confirming_existing' | 'choosing_similar' | 'asking_questions' | 'generating' | 'review' | 'revising' | 'publishing' | 'complete';
   questionsAsked: string[];
-  userAnswers: Record<string, string>;
+  userAnswers: Record<string, string>; // Keyed by question text
+  followUpAsked?: boolean;
+  followUpStart?: number; // Index in questionsAsked of the first follow-up; follow-ups are numbered from 1
+  uploadTarget?: string; // Image (by attachment filename) the reviewer asked to replace with their next upload
+  imageActionsTs?: string; // Message with the per-image menus, refreshed after each change
+}
+
+export interface BatchItem {
+  ticketKey: string;
+  summary: string;
+  status: 'queued' | 'skipped' | 'failed' | 'pending_review' | 'approved' | 'rejected';
+  kbaDraft?: KBADraft;
+  existingPage?: ConfluencePageRef;
+  pageUrl?: string;
+  error?: string;
+  reviewedBy?: string;
+}
+
+export interface KBABatch {
+  id: string;
+  jql: string;
+  channel: string;
+  messageTs: string;
+  reviewTs?: string;
+  userId: string;
+  status: 'generating' | 'reviewing' | 'complete' | 'cancelled';
+  items: BatchItem[];
+  createdAt: string;
 }
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { adfToMarkdown, adfToStorage } from './adf';
+
+const text = (value: string, marks: { type: string; attrs?: Record<string, any> }[] = []) =>
+  ({ type: 'text', text: value, marks });
+const paragraph = (...content: any[]) => ({ type: 'paragraph', content });
+const doc = (...content: any[]) => ({ type: 'doc', version: 1, content });
+
+const DESCRIPTION = doc(
+  { type: 'heading', attrs: { level: 2 }, content: [text('Steps')] },
+  {
+    type: 'orderedList',
+    content: [
+      { type: 'listItem', content: [paragraph(text('Open '), text('Settings', [{ type: 'strong' }]))] },
+      {
+        type: 'listItem',
+        content: [
+          paragraph(text('Run')),
+          { type: 'codeBlock', attrs: { language: 'bash' }, content: [text('vpn reset && echo "]]>"')] }
+        ]
+      }
+    ]
+  },
+  { type: 'panel', attrs: { panelType: 'error' }, content: [paragraph(text('Needs <admin> rights'))] },
+  paragraph(
+    { type: 'mention', attrs: { id: 'abc-123', text: '@Jane' } },
+    text(' see '),
+    text('the guide', [{ type: 'link', attrs: { href: 'https://example.com/?a=1&b=2' } }])
+  )
+);
+
+test('ADF becomes Markdown for prompts', () => {
+  assert.equal(adfToMarkdown(DESCRIPTION), [
+    '## Steps',
+    '',
+    '1. Open **Settings**\n2. Run\n   ```bash\n   vpn reset && echo "]]>"\n   ```',
+    '',
+    '> **ERROR:** Needs <admin> rights',
+    '',
+    '@Jane see [the guide](https://example.com/?a=1&b=2)'
+  ].join('\n'));
+});
+
+test('ADF becomes Confluence storage format', () => {
+  assert.equal(adfToStorage(DESCRIPTION), [
+    '<h2>Steps</h2>',
+    '<ol><li><p>Open <strong>Settings</strong></p></li>',
+    '<li><p>Run</p><ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter>',
+    '<ac:plain-text-body><![CDATA[vpn reset && echo "]]]]><![CDATA[>"]]></ac:plain-text-body></ac:structured-macro></li></ol>',
+    '<ac:structured-macro ac:name="warning"><ac:rich-text-body><p>Needs &lt;admin&gt; rights</p></ac:rich-text-body></ac:structured-macro>',
+    '<p><ac:link><ri:user ri:account-id="abc-123" /></ac:link> see ',
+    '<a href="https://example.com/?a=1&amp;b=2">the guide</a></p>'
+  ].join(''));
+});
+
+test('tables keep their rows in both formats', () => {
+  const cell = (type: string, value: string) => ({ type, content: [paragraph(text(value))] });
+  const table = doc({
+    type: 'table',
+    content: [
+      { type: 'tableRow', content: [cell('tableHeader', 'OS'), cell('tableHeader', 'Fix')] },
+      { type: 'tableRow', content: [cell('tableCell', 'macOS')] }
+    ]
+  });
+
+  assert.equal(adfToMarkdown(table), '| OS | Fix |\n| --- | --- |\n| macOS |  |');
+  assert.equal(
+    adfToStorage(table),
+    '<table><tbody><tr><th><p>OS</p></th><th><p>Fix</p></th></tr><tr><td><p>macOS</p></td></tr></tbody></table>'
+  );
+});
+
+test('plain-text descriptions pass through', () => {
+  assert.equal(adfToMarkdown('Line 1\nLine 2'), 'Line 1\nLine 2');
+  assert.equal(adfToStorage('Line 1\nLine <2>\n\nNext'), '<p>Line 1<br/>Line &lt;2&gt;</p><p>Next</p>');
+  assert.equal(adfToMarkdown(null), '');
+  assert.equal(adfToStorage({ type: 'doc' }), '');
+});
@@ -0,0 +1,400 @@
+/**
+ * Converters for Atlassian Document Format (ADF), the JSON document
+ * model Jira Cloud uses for descriptions and comments.
+ */
+
+interface ADFNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: { type: string; attrs?: Record<string, any> }[];
+  content?: ADFNode[];
+}
+
+const PANEL_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  error: 'warning',
+  success: 'tip'
+};
+
+/**
+ * Convert ADF to Markdown for use in model prompts
+ */
+export function adfToMarkdown(adf: any): string {
+  if (typeof adf === 'string') {
+    return adf;
+  }
+  if (!adf || !Array.isArray(adf.content)) {
+    return '';
+  }
+  return markdownBlocks(adf.content, '').trim();
+}
+
+/**
+ * Convert ADF to Confluence storage format (XHTML)
+ */
+export function adfToStorage(adf: any): string {
+  if (typeof adf === 'string') {
+    return adf
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${escapeXML(paragraph).replace(/\n/g, '<br/>')}</p>`)
+      .join('');
+  }
+  if (!adf || !Array.isArray(adf.content)) {
+    return '';
+  }
+  return adf.content.map(storageNode).join('');
+}
+
+function markdownBlocks(nodes: ADFNode[], indent: string): string {
+  return nodes
+    .map(node => markdownBlock(node, indent))
+    .filter(block => block.length > 0)
+    .join('\n\n');
+}
+
+function markdownBlock(node: ADFNode, indent: string): string {
+  const children = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return indent + markdownInline(children).replace(/\n/g, `\n${indent}`);
+
+    case 'heading':
+      return `${indent}${'#'.repeat(node.attrs?.level || 1)} ${markdownInline(children)}`;
+
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+    case 'decisionList':
+      return markdownList(node, indent);
+
+    case 'codeBlock': {
+      const code = children.map(child => child.text || '').join('');
+      const fence = '```';
+      return `${indent}${fence}${node.attrs?.language || ''}\n${code}\n${fence}`
+        .replace(/\n/g, `\n${indent}`);
+    }
+
+    case 'blockquote':
+      return prefixLines(markdownBlocks(children, ''), `${indent}> `);
+
+    case 'panel': {
+      const label = (node.attrs?.panelType || 'info').toUpperCase();
+      return prefixLines(`**${label}:** ${markdownBlocks(children, '')}`, `${indent}> `);
+    }
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? `**${node.attrs.title}**\n\n` : '';
+      return indent + `${title}${markdownBlocks(children, '')}`.replace(/\n/g, `\n${indent}`);
+    }
+
+    case 'rule':
+      return `${indent}---`;
+
+    case 'table':
+      return markdownTable(node, indent);
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return children.map(child => `${indent}${mediaLabel(child)}`).join('\n');
+
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `${indent}<${node.attrs.url}>` : '';
+
+    default:
+      // Inline node at block level, or an unknown block with children
+      if (node.text !== undefined || !node.content) {
+        return indent + markdownInline([node]);
+      }
+      return markdownBlocks(children, indent);
+  }
+}
+
+function markdownList(node: ADFNode, indent: string): string {
+  const start = node.attrs?.order || 1;
+
+  return (node.content || []).map((item, index) => {
+    let marker = '-';
+    if (node.type === 'orderedList') {
+      marker = `${start + index}.`;
+    } else if (item.type === 'taskItem') {
+      marker = item.attrs?.state === 'DONE' ? '- [x]' : '- [ ]';
+    } else if (item.type === 'decisionItem') {
+      marker = '- Decision:';
+    }
+
+    const childIndent = indent + ' '.repeat(marker.length + 1);
+    const children = item.content || [];
+
+    // Task and decision items hold inline content directly
+    if (children.length > 0 && children.every(child => isInline(child))) {
+      return `${indent}${marker} ${markdownInline(children)}`;
+    }
+
+    const [first, ...rest] = children;
+    let text = `${indent}${marker} ${first ? markdownBlock(first, '') : ''}`;
+    for (const child of rest) {
+      const block = markdownBlock(child, childIndent);
+      if (block.length > 0) {
+        text += `\n${block}`;
+      }
+    }
+    return text;
+  }).join('\n');
+}
+
+function markdownTable(node: ADFNode, indent: string): string {
+  const rows = (node.content || []).map(row =>
+    (row.content || []).map(cell =>
+      markdownBlocks(cell.content || [], '').replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+    )
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const line = (row: string[]) => `${indent}| ${pad(row).join(' | ')} |`;
+
+  return [
+    line(rows[0]),
+    `${indent}|${' --- |'.repeat(width)}`,
+    ...rows.slice(1).map(line)
+  ].join('\n');
+}
+
+function markdownInline(nodes: ADFNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return applyMarkdownMarks(node.text || '', node.marks || []);
+      case 'hardBreak':
+        return '\n';
+      case 'mention':
+        return node.attrs?.text ? (node.attrs.text.startsWith('@') ? node.attrs.text : `@${node.attrs.text}`) : '@user';
+      case 'emoji':
+        return node.attrs?.text || node.attrs?.shortName || '';
+      case 'inlineCard':
+        return node.attrs?.url ? `<${node.attrs.url}>` : '';
+      case 'status':
+        return `[${node.attrs?.text || ''}]`;
+      case 'date':
+        return formatDate(node.attrs?.timestamp);
+      case 'media':
+        return mediaLabel(node);
+      default:
+        return markdownInline(node.content || []);
+    }
+  }).join('');
+}
+
+function applyMarkdownMarks(text: string, marks: ADFNode['marks'] = []): string {
+  let result = text;
+  const link = marks.find(mark => mark.type === 'link');
+
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'code':
+        result = `\`${result}\``;
+        break;
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `_${result}_`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+    }
+  }
+
+  if (link?.attrs?.href) {
+    result = `[${result}](${link.attrs.href})`;
+  }
+  return result;
+}
+
+function storageNode(node: ADFNode): string {
+  const children = node.content || [];
+  const inner = () => children.map(storageNode).join('');
+
+  switch (node.type) {
+    case 'paragraph':
+      return `<p>${inner()}</p>`;
+
+    case 'heading': {
+      const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+      return `<h${level}>${inner()}</h${level}>`;
+    }
+
+    case 'bulletList':
+    case 'taskList':
+    case 'decisionList':
+      return `<ul>${inner()}</ul>`;
+
+    case 'orderedList':
+      return `<ol>${inner()}</ol>`;
+
+    case 'listItem':
+    case 'decisionItem':
+      return `<li>${inner()}</li>`;
+
+    case 'taskItem':
+      return `<li>${node.attrs?.state === 'DONE' ? '&#9745;' : '&#9744;'} ${inner()}</li>`;
+
+    case 'codeBlock': {
+      const code = children.map(child => child.text || '').join('');
+      const language = node.attrs?.language
+        ? `<ac:parameter ac:name="language">${escapeXML(node.attrs.language)}</ac:parameter>`
+        : '';
+      return `<ac:structured-macro ac:name="code">${language}` +
+        `<ac:plain-text-body><![CDATA[${escapeCDATA(code)}]]></ac:plain-text-body></ac:structured-macro>`;
+    }
+
+    case 'blockquote':
+      return `<blockquote>${inner()}</blockquote>`;
+
+    case 'panel': {
+      const macro = PANEL_MACROS[node.attrs?.panelType] || 'info';
+      return `<ac:structured-macro ac:name="${macro}"><ac:rich-text-body>${inner()}</ac:rich-text-body></ac:structured-macro>`;
+    }
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title
+        ? `<ac:parameter ac:name="title">${escapeXML(node.attrs.title)}</ac:parameter>`
+        : '';
+      return `<ac:structured-macro ac:name="expand">${title}<ac:rich-text-body>${inner()}</ac:rich-text-body></ac:structured-macro>`;
+    }
+
+    case 'rule':
+      return '<hr/>';
+
+    case 'table':
+      return `<table><tbody>${inner()}</tbody></table>`;
+
+    case 'tableRow':
+      return `<tr>${inner()}</tr>`;
+
+    case 'tableHeader':
+      return `<th>${inner()}</th>`;
+
+    case 'tableCell':
+      return `<td>${inner()}</td>`;
+
+    case 'text':
+      return applyStorageMarks(escapeXML(node.text || ''), node.marks || []);
+
+    case 'hardBreak':
+      return '<br/>';
+
+    case 'mention':
+      // Jira and Confluence on the same site share Atlassian account IDs
+      if (node.attrs?.id) {
+        return `<ac:link><ri:user ri:account-id="${escapeXML(node.attrs.id)}" /></ac:link>`;
+      }
+      return escapeXML(node.attrs?.text || '@user');
+
+    case 'emoji':
+      return escapeXML(node.attrs?.text || node.attrs?.shortName || '');
+
+    case 'inlineCard':
+    case 'blockCard':
+    case 'embedCard': {
+      const url = node.attrs?.url;
+      if (!url) {
+        return '';
+      }
+      const link = `<a href="${escapeXML(url)}">${escapeXML(url)}</a>`;
+      return node.type === 'inlineCard' ? link : `<p>${link}</p>`;
+    }
+
+    case 'status':
+      return `<ac:structured-macro ac:name="status"><ac:parameter ac:name="title">${escapeXML(node.attrs?.text || '')}</ac:parameter></ac:structured-macro>`;
+
+    case 'date':
+      return escapeXML(formatDate(node.attrs?.timestamp));
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return `<p>${children.map(child => escapeXML(mediaLabel(child))).join(' ')}</p>`;
+
+    case 'media':
+      return escapeXML(mediaLabel(node));
+
+    default:
+      return inner();
+  }
+}
+
+function applyStorageMarks(html: string, marks: ADFNode['marks'] = []): string {
+  let result = html;
+
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'code':
+        result = `<code>${result}</code>`;
+        break;
+      case 'strong':
+        result = `<strong>${result}</strong>`;
+        break;
+      case 'em':
+        result = `<em>${result}</em>`;
+        break;
+      case 'strike':
+        result = `<s>${result}</s>`;
+        break;
+      case 'underline':
+        result = `<u>${result}</u>`;
+        break;
+      case 'subsup':
+        result = mark.attrs?.type === 'sup' ? `<sup>${result}</sup>` : `<sub>${result}</sub>`;
+        break;
+      case 'link':
+        if (mark.attrs?.href) {
+          result = `<a href="${escapeXML(mark.attrs.href)}">${result}</a>`;
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+function isInline(node: ADFNode): boolean {
+  return ['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'status', 'date'].includes(node.type);
+}
+
+function mediaLabel(node: ADFNode): string {
+  const name = node.attrs?.alt || node.attrs?.__fileName;
+  return name ? `[Attachment: ${name}]` : '[Attachment]';
+}
+
+function formatDate(timestamp: any): string {
+  const date = new Date(Number(timestamp));
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text.split('\n').map(line => `${prefix}${line}`).join('\n');
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeCDATA(text: string): string {
+  return text.replace(/]]>/g, ']]]]><![CDATA[>');
+}
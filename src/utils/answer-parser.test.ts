@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SKIPPED_ANSWER, parseAnswers, unansweredQuestions } from './answer-parser';
+
+const QUESTIONS = ['Which OS?', 'Which app version?', 'Does it happen offline?'];
+
+test('a numbered reply is split per question', () => {
+  assert.deepEqual(parseAnswers('1) macOS 14\n2. 5.2.1\nQ3: Yes, also offline', QUESTIONS, {}), {
+    'Which OS?': 'macOS 14',
+    'Which app version?': '5.2.1',
+    'Does it happen offline?': 'Yes, also offline'
+  });
+});
+
+test('a reply without numbers answers the first open question', () => {
+  assert.deepEqual(parseAnswers('  Windows 11  ', QUESTIONS, { 'Which OS?': 'macOS' }), {
+    'Which app version?': 'Windows 11'
+  });
+});
+
+test('a numbered list inside an answer is kept whole', () => {
+  const text = 'Steps I tried:\n1. Restart\n2. Reinstall';
+  assert.deepEqual(parseAnswers(text, QUESTIONS, {}), { 'Which OS?': text });
+});
+
+test('numbers for answered or unknown questions are not split', () => {
+  const answered = { 'Which OS?': 'macOS' };
+  assert.deepEqual(parseAnswers('1) Windows\n2) 5.2', QUESTIONS, answered), {
+    'Which app version?': '1) Windows\n2) 5.2'
+  });
+  assert.deepEqual(parseAnswers('2) 5.2\n7) no', QUESTIONS, {}), { 'Which OS?': '2) 5.2\n7) no' });
+  assert.deepEqual(parseAnswers('2) 5.2\n1) macOS', QUESTIONS, {}), { 'Which OS?': '2) 5.2\n1) macOS' });
+});
+
+test('skip phrases are recorded as skipped', () => {
+  assert.deepEqual(parseAnswers('1) skip\n2) I don\'t know.\n3) No', QUESTIONS, {}), {
+    'Which OS?': SKIPPED_ANSWER,
+    'Which app version?': SKIPPED_ANSWER,
+    'Does it happen offline?': 'No'
+  });
+});
+
+test('an empty reply answers nothing', () => {
+  assert.deepEqual(parseAnswers('   ', QUESTIONS, {}), {});
+});
+
+test('unanswered questions keep their order', () => {
+  assert.deepEqual(
+    unansweredQuestions(QUESTIONS, { 'Which app version?': '5.2' }),
+    ['Which OS?', 'Does it happen offline?']
+  );
+});
@@ -0,0 +1,63 @@
+export const SKIPPED_ANSWER = 'Unknown (skipped by user)';
+
+// "1) ...", "1. ...", "Q1: ...", "#1 - ..." at the start of a line
+const NUMBERED_ANSWER = /(?:^|\n)[ \t]*(?:q|#)?(\d{1,2})(?:\)|:|\.(?=\s)|[ \t]+-(?=\s))[ \t]*/gi;
+
+const SKIP_PHRASES = /^(skip(ped)?|pass|n\/?a|none|idk|unknown|not sure|no idea|dunno|(i )?(do not|don'?t) know)$/;
+
+/**
+ * Match a reply against the questions it answers.
+ *
+ * A reply that starts with a number and numbers open questions in
+ * ascending order is split per question. Anything else - including an
+ * answer that contains a numbered list - answers the first question that
+ * doesn't have an answer yet, so answered questions are never overwritten.
+ */
+export function parseAnswers(
+  text: string,
+  questions: string[],
+  answers: Record<string, string>
+): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  const markers = Array.from(text.matchAll(NUMBERED_ANSWER));
+  const numbers = markers.map(match => parseInt(match[1], 10));
+  const splitsPerQuestion = markers.length > 0 &&
+    text.slice(0, markers[0].index).trim().length === 0 &&
+    numbers.every((number, index) =>
+      number >= 1 &&
+      number <= questions.length &&
+      !(questions[number - 1] in answers) &&
+      (index === 0 || number > numbers[index - 1])
+    );
+
+  if (!splitsPerQuestion) {
+    const next = questions.find(q => !(q in answers));
+    if (next && text.trim().length > 0) {
+      parsed[next] = normalizeAnswer(text);
+    }
+    return parsed;
+  }
+
+  markers.forEach((match, index) => {
+    const start = match.index! + match[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index! : text.length;
+    const value = text.slice(start, end).trim();
+    if (value.length > 0) {
+      parsed[questions[parseInt(match[1], 10) - 1]] = normalizeAnswer(value);
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Questions that still need an answer
+ */
+export function unansweredQuestions(questions: string[], answers: Record<string, string>): string[] {
+  return questions.filter(q => !(q in answers));
+}
+
+function normalizeAnswer(value: string): string {
+  const phrase = value.trim().toLowerCase().replace(/[.!?,]+$/g, '');
+  return SKIP_PHRASES.test(phrase) ? SKIPPED_ANSWER : value.trim();
+}
@@ -0,0 +1,101 @@
+import { AuditEvent } from '../stores/audit-log';
+
+export interface UsageStats {
+  requests: number; // KBAs whose ticket was fetched
+  drafts: number; // ... that got a generated draft
+  published: number;
+  cancelled: number; // Cancelled or rejected after a draft was generated
+  approvalRate: number | null; // published / (published + cancelled); null until something is decided
+  avgTimeToPublishMs: number | null;
+  cost: number; // Estimated USD
+}
+
+export interface AuditSummary {
+  total: UsageStats;
+  byChannel: Map<string, UsageStats>;
+  byUser: Map<string, UsageStats>; // Keyed by the user who requested the KBA
+}
+
+interface ConversationStats {
+  channel: string;
+  requestedBy: string;
+  fetchedAt?: number;
+  publishedAt?: number;
+  drafted: boolean;
+  cancelled: boolean;
+  cost: number;
+}
+
+/**
+ * Roll audit events up into per-channel and per-requester statistics
+ */
+export function summarizeAudit(events: AuditEvent[]): AuditSummary {
+  const conversations = new Map<string, ConversationStats>();
+
+  for (const event of events) {
+    let conversation = conversations.get(event.conversation);
+    if (!conversation) {
+      conversation = {
+        channel: event.channel,
+        requestedBy: event.requestedBy || event.userId,
+        drafted: false,
+        cancelled: false,
+        cost: 0
+      };
+      conversations.set(event.conversation, conversation);
+    }
+
+    const at = new Date(event.at).getTime();
+    conversation.cost += event.cost || 0;
+
+    switch (event.type) {
+      case 'ticket_fetched':
+        conversation.fetchedAt = conversation.fetchedAt ?? at;
+        break;
+      case 'generation':
+        conversation.drafted = true;
+        break;
+      case 'published':
+        conversation.publishedAt = conversation.publishedAt ?? at;
+        break;
+      case 'cancelled':
+        conversation.cancelled = conversation.drafted && !conversation.publishedAt;
+        break;
+    }
+  }
+
+  const all = Array.from(conversations.values());
+  const groupBy = (key: (conversation: ConversationStats) => string) => {
+    const groups = new Map<string, ConversationStats[]>();
+    for (const conversation of all) {
+      groups.set(key(conversation), [...(groups.get(key(conversation)) || []), conversation]);
+    }
+    return new Map(Array.from(groups.entries()).map(([name, group]) => [name, computeStats(group)]));
+  };
+
+  return {
+    total: computeStats(all),
+    byChannel: groupBy(conversation => conversation.channel),
+    byUser: groupBy(conversation => conversation.requestedBy)
+  };
+}
+
+function computeStats(conversations: ConversationStats[]): UsageStats {
+  const published = conversations.filter(c => c.publishedAt !== undefined);
+  const cancelled = conversations.filter(c => c.cancelled).length;
+  const publishTimes = published
+    .filter(c => c.fetchedAt !== undefined)
+    .map(c => c.publishedAt! - c.fetchedAt!);
+
+  return {
+    requests: conversations.filter(c => c.fetchedAt !== undefined).length,
+    drafts: conversations.filter(c => c.drafted).length,
+    published: published.length,
+    cancelled,
+    approvalRate: published.length + cancelled > 0 ? published.length / (published.length + cancelled) : null,
+    avgTimeToPublishMs: publishTimes.length > 0
+      ? publishTimes.reduce((sum, ms) => sum + ms, 0) / publishTimes.length
+      : null,
+    cost: conversations.reduce((sum, c) => sum + c.cost, 0)
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Integer setting from the environment, falling back to the default when
+ * it is missing, not a number or below `min`
+ */
+export function envInt(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  const value = raw ? Number(raw) : NaN;
+  if (!Number.isInteger(value) || value < min) {
+    if (raw) {
+      console.warn(`Ignoring invalid ${name}=${raw}; using ${fallback}`);
+    }
+    return fallback;
+  }
+  return value;
+}
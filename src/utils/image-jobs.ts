@@ -0,0 +1,231 @@
+import { ImageFailure } from '../types';
+
+/**
+ * One image to generate: a step's mockup for one OS
+ */
+export interface ImageJob {
+  stepNumber: number;
+  osType: 'mac' | 'windows';
+  prompt: string;
+}
+
+export type ImageJobStatus = 'queued' | 'generating' | 'retrying' | 'done' | 'failed';
+
+export interface ImageJobState {
+  job: ImageJob;
+  status: ImageJobStatus;
+  attempts: number;
+  error?: string; // Last error, kept while retrying
+}
+
+export type ImageProgressListener = (states: ImageJobState[]) => void;
+
+export interface ImageJobRunnerOptions {
+  concurrency: number;
+  maxAttempts: number;
+  timeoutMs: number; // Per attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Cap for our own backoff; Retry-After is honored as given
+  onProgress?: ImageProgressListener;
+}
+
+export interface ImageJobOutcome<T> {
+  job: ImageJob;
+  result?: T;
+  error?: string; // Set when every attempt failed
+}
+
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Thrown when one attempt takes longer than the per-image timeout
+ */
+export class ImageTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ImageTimeoutError';
+  }
+}
+
+/**
+ * Run image jobs with at most `concurrency` in flight, retrying transient
+ * failures with exponential backoff. A Retry-After from the API pauses
+ * every worker, since the rate limit is shared. Never throws; failures
+ * are returned per job.
+ */
+export async function runImageJobs<T>(
+  jobs: ImageJob[],
+  generate: (job: ImageJob, signal: AbortSignal) => Promise<T>,
+  options: ImageJobRunnerOptions
+): Promise<ImageJobOutcome<T>[]> {
+  const states: ImageJobState[] = jobs.map(job => ({ job, status: 'queued', attempts: 0 }));
+  const outcomes: ImageJobOutcome<T>[] = jobs.map(job => ({ job }));
+  const report = () => options.onProgress?.(states.map(state => ({ ...state })));
+  let next = 0;
+  let pausedUntil = 0;
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      const state = states[index];
+
+      while (state.status !== 'done' && state.status !== 'failed') {
+        await sleep(pausedUntil - Date.now());
+        state.attempts++;
+        state.status = 'generating';
+        report();
+
+        try {
+          outcomes[index].result = await withTimeout(signal => generate(state.job, signal), options.timeoutMs);
+          state.status = 'done';
+          state.error = undefined;
+        } catch (error: any) {
+          state.error = error.message;
+          if (state.attempts >= options.maxAttempts || !isRetryable(error)) {
+            console.error(`Image for step ${state.job.stepNumber} (${state.job.osType}) failed:`, error.message);
+            state.status = 'failed';
+            outcomes[index].error = error.message;
+          } else {
+            const retryAfter = retryAfterMs(error);
+            if (retryAfter !== undefined) {
+              pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter);
+            }
+            state.status = 'retrying';
+            report();
+            await sleep(retryAfter ?? backoffMs(state.attempts, options));
+          }
+        }
+      }
+      report();
+    }
+  };
+
+  report();
+  const workers = Math.min(Math.max(1, options.concurrency), jobs.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
+
+/**
+ * Slack text for the progress message, one line per image
+ */
+export function formatImageProgress(states: ImageJobState[]): string {
+  const done = states.filter(state => state.status === 'done').length;
+  const failed = states.filter(state => state.status === 'failed').length;
+
+  let text = `*Progress:* ${done}/${states.length} done${failed > 0 ? `, ${failed} failed` : ''}\n`;
+  for (const state of states) {
+    const label = `Step ${state.job.stepNumber} (${osLabel(state.job.osType)})`;
+    switch (state.status) {
+      case 'queued':
+        text += `• ${label} :clock3: queued\n`;
+        break;
+      case 'generating':
+        text += `• ${label} :hourglass_flowing_sand: generating${state.attempts > 1 ? ` (attempt ${state.attempts})` : ''}\n`;
+        break;
+      case 'retrying':
+        text += `• ${label} :repeat: retrying (${state.error})\n`;
+        break;
+      case 'done':
+        text += `• ${label} :white_check_mark:\n`;
+        break;
+      case 'failed':
+        text += `• ${label} :x: ${state.error}\n`;
+        break;
+    }
+  }
+  return text;
+}
+
+/**
+ * Slack text listing the steps left without a mockup
+ */
+export function formatImageFailures(failures: ImageFailure[]): string {
+  return failures
+    .map(failure => `• Step ${failure.stepNumber} (${osLabel(failure.osType)}): ${failure.error}`)
+    .join('\n');
+}
+
+/**
+ * Display name for a mockup's OS
+ */
+export function osLabel(osType: 'mac' | 'windows'): string {
+  return osType === 'mac' ? 'macOS' : 'Windows';
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ImageTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Timeouts, connection errors, rate limits and server errors are worth
+ * retrying; content policy rejections and exhausted billing are not
+ */
+function isRetryable(error: any): boolean {
+  if (error instanceof ImageTimeoutError) {
+    return true;
+  }
+  if (error?.code === 'insufficient_quota' || error?.code === 'content_policy_violation') {
+    return false;
+  }
+
+  const status: number | undefined = error?.status;
+  return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Delay requested by the API, from retry-after-ms or Retry-After
+ * (seconds or an HTTP date)
+ */
+function retryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const header = (name: string): string | null | undefined =>
+    typeof headers.get === 'function' ? headers.get(name) : headers[name];
+
+  const ms = parseFloat(header('retry-after-ms') || '');
+  if (!isNaN(ms) && ms >= 0) {
+    return ms;
+  }
+
+  const value = header('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = parseFloat(value);
+  if (!isNaN(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter, so parallel workers don't retry in step
+ */
+function backoffMs(attempt: number, options: ImageJobRunnerOptions): number {
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const delay = Math.min(max, base * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffKBAContent, formatKBADiff, matchRevisedSteps } from './kba-diff';
+import { KBAContent, KBAStep } from '../types';
+
+function content(steps: KBAStep[], overrides: Partial<KBAContent> = {}): KBAContent {
+  return { title: 'Title', problem: 'Problem', solution: 'Solution', steps, tags: ['vpn'], ...overrides };
+}
+
+const OPEN = { stepNumber: 1, description: 'Open the client', imagePrompt: 'Client window', osType: 'mac' } as KBAStep;
+const CLICK = { stepNumber: 2, description: 'Click Connect', imagePrompt: 'Connect button', osType: 'mac' } as KBAStep;
+const CHECK = { stepNumber: 3, description: 'Check the status', osType: 'mac' } as KBAStep;
+
+test('only changed sections are listed', () => {
+  const before = content([OPEN, CLICK]);
+  const after = content([OPEN], { solution: 'Reinstall', additionalNotes: 'Needs admin rights' });
+
+  assert.deepEqual(diffKBAContent(before, after), [
+    { section: 'Solution', before: 'Solution', after: 'Reinstall' },
+    {
+      section: 'Step 2',
+      before: 'Click Connect\n_Screenshot (mac): Connect button_',
+      after: undefined
+    },
+    { section: 'Additional Notes', before: undefined, after: 'Needs admin rights' }
+  ]);
+  assert.deepEqual(diffKBAContent(before, content([OPEN, CLICK], { title: ' Title ' })), []);
+});
+
+test('changes are labelled and quoted for Slack', () => {
+  assert.equal(formatKBADiff([]), '_No changes were made to the KBA content._');
+  assert.equal(
+    formatKBADiff([
+      { section: 'Title', before: 'Old', after: 'New' },
+      { section: 'Step 3', after: 'Line 1\nLine 2' }
+    ]),
+    '*Title* (changed)\n> _Before:_ Old\n> _After:_ New\n\n*Step 3* (added)\n> _After:_ Line 1\n> Line 2\n'
+  );
+});
+
+test('inserting a step keeps the screenshots of the steps after it', () => {
+  const inserted = { stepNumber: 1, description: 'Quit other VPN apps', imagePrompt: 'Dock menu', osType: 'mac' } as KBAStep;
+  const { renumbered, needingImages } = matchRevisedSteps(
+    content([OPEN, CLICK, CHECK]),
+    content([inserted, { ...OPEN, stepNumber: 2 }, { ...CLICK, stepNumber: 3 }, { ...CHECK, stepNumber: 4 }])
+  );
+
+  assert.deepEqual(Array.from(renumbered).sort(), [[1, 2], [2, 3], [3, 4]]);
+  assert.deepEqual(needingImages, [inserted]);
+});
+
+test('a changed prompt or OS needs a new screenshot', () => {
+  const { renumbered, needingImages } = matchRevisedSteps(
+    content([OPEN, CLICK]),
+    content([{ ...OPEN, imagePrompt: 'Client window, dark mode' }, { ...CLICK, osType: 'windows' }])
+  );
+
+  assert.deepEqual(Array.from(renumbered).sort(), [[1, 1], [2, 2]]);
+  assert.deepEqual(needingImages.map(step => step.stepNumber), [1, 2]);
+});
+
+test('removed steps are not renumbered', () => {
+  const { renumbered, needingImages } = matchRevisedSteps(
+    content([OPEN, CLICK, CHECK]),
+    content([{ ...CLICK, stepNumber: 1 }])
+  );
+
+  assert.deepEqual(Array.from(renumbered), [[2, 1]]);
+  assert.deepEqual(needingImages, []);
+});
@@ -0,0 +1,144 @@
+import { KBAContent, KBASectionChange, KBAStep } from '../types';
+import { getTemplate } from '../templates/kba-templates';
+
+/**
+ * Compare two versions of a KBA section by section
+ */
+export function diffKBAContent(before: KBAContent, after: KBAContent): KBASectionChange[] {
+  const changes: KBASectionChange[] = [];
+
+  const compare = (section: string, oldValue?: string, newValue?: string) => {
+    const oldText = (oldValue || '').trim();
+    const newText = (newValue || '').trim();
+    if (oldText !== newText) {
+      changes.push({
+        section,
+        before: oldText || undefined,
+        after: newText || undefined
+      });
+    }
+  };
+
+  const template = getTemplate(after.template);
+
+  compare('Title', before.title, after.title);
+  compare(template.headings.problem, before.problem, after.problem);
+  compare(template.headings.solution, before.solution, after.solution);
+
+  for (const section of template.sections) {
+    compare(section.heading, before.sections?.[section.key], after.sections?.[section.key]);
+  }
+
+  const stepNumbers = new Set<number>([
+    ...before.steps.map(s => s.stepNumber),
+    ...after.steps.map(s => s.stepNumber)
+  ]);
+
+  for (const stepNumber of Array.from(stepNumbers).sort((a, b) => a - b)) {
+    const oldStep = before.steps.find(s => s.stepNumber === stepNumber);
+    const newStep = after.steps.find(s => s.stepNumber === stepNumber);
+    compare(`Step ${stepNumber}`, describeStep(oldStep), describeStep(newStep));
+  }
+
+  compare(template.headings.additionalNotes, before.additionalNotes, after.additionalNotes);
+  compare('Tags', before.tags.join(', '), after.tags.join(', '));
+
+  return changes;
+}
+
+/**
+ * Render a list of section changes as Slack mrkdwn
+ */
+export function formatKBADiff(changes: KBASectionChange[]): string {
+  if (changes.length === 0) {
+    return '_No changes were made to the KBA content._';
+  }
+
+  return changes.map(change => {
+    let label = 'changed';
+    if (!change.before) {
+      label = 'added';
+    } else if (!change.after) {
+      label = 'removed';
+    }
+
+    let text = `*${change.section}* (${label})\n`;
+    if (change.before) {
+      text += `${quote(`_Before:_ ${change.before}`)}\n`;
+    }
+    if (change.after) {
+      text += `${quote(`_After:_ ${change.after}`)}\n`;
+    }
+    return text;
+  }).join('\n');
+}
+
+export interface RevisedSteps {
+  renumbered: Map<number, number>; // Old stepNumber -> new stepNumber, for steps that are still there
+  needingImages: KBAStep[]; // Revised steps whose screenshot needs (re)generating
+}
+
+/**
+ * Match revised steps to the previous ones by image prompt, then by text,
+ * so inserting or removing a step doesn't regenerate every screenshot after it
+ */
+export function matchRevisedSteps(before: KBAContent, after: KBAContent): RevisedSteps {
+  const unmatched = [...before.steps];
+  const take = (predicate: (step: KBAStep) => boolean): KBAStep | undefined => {
+    const index = unmatched.findIndex(predicate);
+    return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+  };
+
+  const matches = new Map<KBAStep, KBAStep>();
+  for (const step of after.steps.filter(s => s.imagePrompt)) {
+    const oldStep = take(s => s.imagePrompt === step.imagePrompt && s.osType === step.osType);
+    if (oldStep) {
+      matches.set(step, oldStep);
+    }
+  }
+  // Same text, then same position for steps reworded in place
+  const fallbacks = [
+    (step: KBAStep) => (s: KBAStep) => s.description === step.description,
+    (step: KBAStep) => (s: KBAStep) => s.stepNumber === step.stepNumber
+  ];
+  for (const matchBy of fallbacks) {
+    for (const step of after.steps.filter(s => !matches.has(s))) {
+      const oldStep = take(matchBy(step));
+      if (oldStep) {
+        matches.set(step, oldStep);
+      }
+    }
+  }
+
+  const renumbered = new Map<number, number>();
+  for (const [step, oldStep] of matches) {
+    renumbered.set(oldStep.stepNumber, step.stepNumber);
+  }
+
+  const needingImages = after.steps.filter(step => {
+    const oldStep = matches.get(step);
+    return step.imagePrompt &&
+      (!oldStep || oldStep.imagePrompt !== step.imagePrompt || oldStep.osType !== step.osType);
+  });
+
+  return { renumbered, needingImages };
+}
+
+function describeStep(step?: KBAStep): string | undefined {
+  if (!step) {
+    return undefined;
+  }
+
+  let text = step.description;
+  if (step.codeSnippet) {
+    text += `\n\`${step.codeSnippet}\``;
+  }
+  if (step.imagePrompt) {
+    text += `\n_Screenshot (${step.osType || 'unspecified'}): ${step.imagePrompt}_`;
+  }
+  return text;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
@@ -0,0 +1,243 @@
+import PDFDocument from 'pdfkit';
+import { GeneratedImage, KBADraft } from '../types';
+import { getTemplate, sectionText, templateLayout } from '../templates/kba-templates';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  markdown: { label: 'Markdown', extension: 'md' },
+  html: { label: 'HTML', extension: 'html' },
+  pdf: { label: 'PDF', extension: 'pdf' }
+};
+
+/**
+ * A KBA flattened into the blocks every export format renders, in the
+ * same order as the Confluence page
+ */
+type ExportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string; label?: string; url?: string }
+  | { type: 'code'; text: string }
+  | { type: 'image'; image: GeneratedImage; label: string }
+  | { type: 'details'; title: string; text: string };
+
+/**
+ * Attachment filename for a step screenshot, shared with the Confluence page
+ */
+export function imageFilename(image: GeneratedImage): string {
+  if (image.source === 'jira') {
+    const extension = (image.filename || '').match(/\.\w+$/)?.[0] || '.png';
+    return `step-${image.stepNumber}-attachment-${image.attachmentId}${extension.toLowerCase()}`;
+  }
+  if (image.source === 'upload') {
+    const extension = (image.filename || '').match(/\.\w+$/)?.[0] || '.png';
+    return `step-${image.stepNumber}-upload-${image.slackFileId}${extension.toLowerCase()}`;
+  }
+  return `step-${image.stepNumber}-${image.osType}.png`;
+}
+
+/**
+ * Caption shown above a step screenshot
+ */
+export function imageLabel(image: GeneratedImage): string {
+  if (image.source === 'jira' || image.source === 'upload') {
+    return 'Screenshot';
+  }
+  return image.osType === 'mac' ? 'macOS' : 'Windows';
+}
+
+/**
+ * Markdown with images referenced by their attachment filename, so the
+ * files can be shipped alongside it
+ */
+export function renderMarkdown(draft: KBADraft): string {
+  return exportBlocks(draft).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'paragraph':
+        return block.url
+          ? `**${block.label}:** [${block.text}](${block.url})`
+          : `${block.label ? `**${block.label}:** ` : ''}${block.text}`;
+      case 'code':
+        return `\`\`\`\n${block.text}\n\`\`\``;
+      case 'image':
+        return `**${block.label}:**\n\n![Step ${block.image.stepNumber} - ${block.label}](${imageFilename(block.image)})`;
+      case 'details':
+        return `<details>\n<summary>${block.title}</summary>\n\n${block.text}\n\n</details>`;
+    }
+  }).join('\n\n') + '\n';
+}
+
+/**
+ * A single self-contained HTML file with images inlined as data URIs
+ */
+export function renderHTML(draft: KBADraft, images: Map<GeneratedImage, Buffer>): string {
+  const body = exportBlocks(draft).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${escapeHTML(block.text)}</h${block.level}>`;
+      case 'paragraph': {
+        const label = block.label ? `<strong>${escapeHTML(block.label)}:</strong> ` : '';
+        const text = block.url
+          ? `<a href="${escapeHTML(block.url)}">${escapeHTML(block.text)}</a>`
+          : escapeHTML(block.text).replace(/\n/g, '<br/>');
+        return `<p>${label}${text}</p>`;
+      }
+      case 'code':
+        return `<pre><code>${escapeHTML(block.text)}</code></pre>`;
+      case 'image': {
+        const data = images.get(block.image);
+        const img = data
+          ? `<img src="data:${block.image.mimeType || 'image/png'};base64,${data.toString('base64')}" alt="Step ${block.image.stepNumber} - ${escapeHTML(block.label)}"/>`
+          : `<em>(image unavailable)</em>`;
+        return `<p><strong>${escapeHTML(block.label)}:</strong></p>\n<p>${img}</p>`;
+      }
+      case 'details':
+        return `<details><summary>${escapeHTML(block.title)}</summary><pre>${escapeHTML(block.text)}</pre></details>`;
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHTML(draft.content.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 800px; margin: 2em auto; padding: 0 1em; line-height: 1.5; color: #172b4d; }
+  pre { background: #f4f5f7; padding: 0.75em; overflow-x: auto; }
+  img { max-width: 100%; border: 1px solid #dfe1e6; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * A PDF rendered locally with pdfkit. Only PNG and JPEG screenshots can
+ * be embedded; other formats are noted by name.
+ */
+export function renderPDF(draft: KBADraft, images: Map<GeneratedImage, Buffer>): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50, info: { Title: draft.content.title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const headingSizes = { 1: 20, 2: 15, 3: 12 };
+
+    for (const block of exportBlocks(draft)) {
+      switch (block.type) {
+        case 'heading':
+          doc.moveDown(block.level === 3 ? 0.5 : 1)
+            .font('Helvetica-Bold').fontSize(headingSizes[block.level]).text(block.text);
+          doc.moveDown(0.3);
+          break;
+        case 'paragraph':
+          if (block.label) {
+            doc.font('Helvetica-Bold').fontSize(11).text(`${block.label}: `, { continued: true });
+          }
+          doc.font('Helvetica').fontSize(11)
+            .text(block.text, block.url ? { link: block.url, underline: true } : {});
+          doc.moveDown(0.5);
+          break;
+        case 'code':
+          doc.font('Courier').fontSize(9).text(block.text, { width });
+          doc.moveDown(0.5);
+          break;
+        case 'image': {
+          doc.font('Helvetica-Bold').fontSize(11).text(`${block.label}:`);
+          const data = images.get(block.image);
+          try {
+            if (!data) {
+              throw new Error('unavailable');
+            }
+            doc.image(data, { fit: [width, 350] });
+          } catch {
+            doc.font('Helvetica-Oblique').fontSize(10)
+              .text(`(image ${block.image.filename || imageFilename(block.image)} could not be embedded)`);
+          }
+          doc.moveDown(0.5);
+          break;
+        }
+        case 'details':
+          doc.moveDown(1).font('Helvetica-Bold').fontSize(12).text(block.title);
+          doc.font('Helvetica').fontSize(9).text(block.text, { width });
+          break;
+      }
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Lay out a draft the way generateConfluenceHTML does: ticket link,
+ * template sections in order (steps with their code and screenshots),
+ * optional ticket description, then tags
+ */
+function exportBlocks(draft: KBADraft): ExportBlock[] {
+  const { content, images, jiraTicket } = draft;
+  const blocks: ExportBlock[] = [
+    { type: 'heading', level: 1, text: content.title },
+    {
+      type: 'paragraph',
+      label: 'Related Jira Ticket',
+      text: jiraTicket.key,
+      url: `${process.env.JIRA_HOST}/browse/${jiraTicket.key}`
+    }
+  ];
+
+  for (const entry of templateLayout(getTemplate(content.template))) {
+    if (entry.key === 'steps') {
+      blocks.push({ type: 'heading', level: 2, text: entry.heading });
+
+      for (const step of content.steps) {
+        blocks.push(
+          { type: 'heading', level: 3, text: `Step ${step.stepNumber}` },
+          { type: 'paragraph', text: step.description }
+        );
+        if (step.codeSnippet) {
+          blocks.push({ type: 'code', text: step.codeSnippet });
+        }
+        for (const image of images.filter(img => img.stepNumber === step.stepNumber)) {
+          blocks.push({ type: 'image', image, label: imageLabel(image) });
+        }
+      }
+      continue;
+    }
+
+    const text = sectionText(content, entry);
+    if (text) {
+      blocks.push(
+        { type: 'heading', level: 2, text: entry.heading },
+        { type: 'paragraph', text }
+      );
+    }
+  }
+
+  if (process.env.CONFLUENCE_INCLUDE_TICKET_DETAILS === 'true' && jiraTicket.description) {
+    blocks.push({
+      type: 'details',
+      title: `Original ticket description (${jiraTicket.key})`,
+      text: jiraTicket.description
+    });
+  }
+
+  blocks.push({ type: 'paragraph', label: 'Tags', text: content.tags.join(', ') });
+  return blocks;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateKBAContent, validateQuestions } from './kba-validation';
+import { getTemplate } from '../templates/kba-templates';
+
+const VALID = {
+  title: ' Reset a VPN profile ',
+  problem: 'The VPN client fails to connect.',
+  solution: 'Remove and re-import the profile.',
+  steps: [{ stepNumber: 1, description: 'Open the VPN client' }],
+  tags: ['vpn']
+};
+
+test('fields are trimmed and the default template adds no sections', () => {
+  const { value, errors } = validateKBAContent(VALID);
+  assert.deepEqual(errors, []);
+  assert.equal(value!.title, 'Reset a VPN profile');
+  assert.equal(value!.template, undefined);
+  assert.equal(value!.sections, undefined);
+});
+
+test('missing required fields are all reported', () => {
+  const { value, errors } = validateKBAContent({ title: '', steps: [] });
+  assert.equal(value, undefined);
+  assert.deepEqual(errors, [
+    '"title" must be a non-empty string',
+    '"problem" must be a non-empty string',
+    '"solution" must be a non-empty string',
+    '"steps" must be a non-empty array'
+  ]);
+  assert.deepEqual(validateKBAContent([VALID]).errors, ['Response must be a JSON object']);
+});
+
+test('steps are sorted by the model\'s numbers and renumbered without gaps', () => {
+  const { value } = validateKBAContent({
+    ...VALID,
+    steps: [
+      { stepNumber: 5, description: 'Third', osType: 'macOS' },
+      { stepNumber: 2, description: 'First', osType: 'All', imagePrompt: ' Settings window ' },
+      { description: 'Second', osType: 'linux' }
+    ]
+  });
+  assert.deepEqual(value!.steps.map(s => [s.stepNumber, s.description, s.osType]), [
+    [1, 'First', 'both'],
+    [2, 'Second', undefined],
+    [3, 'Third', 'mac']
+  ]);
+  assert.equal(value!.steps[0].imagePrompt, 'Settings window');
+});
+
+test('invalid steps are reported by position', () => {
+  const { errors } = validateKBAContent({
+    ...VALID,
+    steps: [{ description: ' ' }, 'step', { description: 'ok', stepNumber: 'two', imagePrompt: 3 }]
+  });
+  assert.deepEqual(errors, [
+    'steps[0].description must be a non-empty string',
+    'steps[1] must be an object',
+    'steps[2].stepNumber must be a number',
+    'steps[2].imagePrompt must be a string if present'
+  ]);
+});
+
+test('tags are normalized, deduplicated and may be a comma-separated string', () => {
+  assert.deepEqual(validateKBAContent({ ...VALID, tags: 'VPN, Remote Access ,vpn,' }).value!.tags, [
+    'vpn',
+    'remote-access'
+  ]);
+  assert.deepEqual(validateKBAContent({ ...VALID, tags: undefined }).value!.tags, []);
+  assert.deepEqual(validateKBAContent({ ...VALID, tags: 3 }).errors, ['"tags" must be an array of strings']);
+});
+
+test('a template\'s required sections must be filled in', () => {
+  const template = getTemplate('how-to');
+  assert.deepEqual(validateKBAContent(VALID, template).errors, ['"sections.prerequisites" must be a non-empty string']);
+
+  const { value } = validateKBAContent({ ...VALID, sections: { prerequisites: ' Admin rights ' } }, template);
+  assert.equal(value!.template, 'how-to');
+  assert.deepEqual(value!.sections, { prerequisites: 'Admin rights' });
+});
+
+test('questions may be wrapped in an object or a bare array', () => {
+  assert.deepEqual(validateQuestions({ questions: [' Which OS? '] }).value, ['Which OS?']);
+  assert.deepEqual(validateQuestions(['Which OS?']).value, ['Which OS?']);
+  assert.deepEqual(validateQuestions([]).value, []);
+  assert.deepEqual(validateQuestions({ questions: ['ok', ''] }).errors, ['Every question must be a non-empty string']);
+  assert.equal(validateQuestions({ question: 'Which OS?' }).value, undefined);
+});
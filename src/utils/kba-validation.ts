@@ -0,0 +1,189 @@
+import { KBAContent, KBAStep } from '../types';
+import { DEFAULT_TEMPLATE_ID, KBATemplate } from '../templates/kba-templates';
+
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+/**
+ * Thrown when a model keeps returning output that fails validation
+ */
+export class ModelOutputError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'ModelOutputError';
+  }
+}
+
+/**
+ * Validate and normalize a model-returned KBA, including the sections
+ * its template requires
+ */
+export function validateKBAContent(raw: any, template?: KBATemplate): ValidationResult<KBAContent> {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+
+  for (const field of ['title', 'problem', 'solution']) {
+    if (typeof raw[field] !== 'string' || raw[field].trim().length === 0) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (raw.additionalNotes !== undefined && raw.additionalNotes !== null && typeof raw.additionalNotes !== 'string') {
+    errors.push('"additionalNotes" must be a string if present');
+  }
+
+  let steps: KBAStep[] = [];
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    errors.push('"steps" must be a non-empty array');
+  } else {
+    const parsed = raw.steps.map((step: any, index: number) => {
+      const result = validateStep(step, index);
+      errors.push(...result.errors);
+      return result.value;
+    });
+    steps = renumberSteps(parsed.filter((step: KBAStep | undefined): step is KBAStep => !!step));
+  }
+
+  let tags: string[] = [];
+  if (raw.tags !== undefined && !Array.isArray(raw.tags) && typeof raw.tags !== 'string') {
+    errors.push('"tags" must be an array of strings');
+  } else {
+    tags = normalizeTags(raw.tags);
+  }
+
+  const sections: Record<string, string> = {};
+  if (template && template.sections.length > 0) {
+    const rawSections = raw.sections && typeof raw.sections === 'object' ? raw.sections : {};
+    for (const section of template.sections) {
+      const value = rawSections[section.key];
+      if (typeof value === 'string' && value.trim().length > 0) {
+        sections[section.key] = value.trim();
+      } else if (!section.optional) {
+        errors.push(`"sections.${section.key}" must be a non-empty string`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const content: KBAContent = {
+    title: raw.title.trim(),
+    problem: raw.problem.trim(),
+    solution: raw.solution.trim(),
+    steps,
+    additionalNotes: raw.additionalNotes ? raw.additionalNotes.trim() : undefined,
+    tags
+  };
+  if (template && template.id !== DEFAULT_TEMPLATE_ID) {
+    content.template = template.id;
+    content.sections = sections;
+  }
+
+  return { value: content, errors };
+}
+
+/**
+ * Validate clarifying questions, accepting `{questions: [...]}` or a bare array
+ */
+export function validateQuestions(raw: any): ValidationResult<string[]> {
+  const list = Array.isArray(raw) ? raw : raw?.questions;
+
+  if (!Array.isArray(list)) {
+    return { errors: ['Response must be {"questions": [...]} with an array of strings'] };
+  }
+
+  const questions = list
+    .filter((q: any) => typeof q === 'string')
+    .map((q: string) => q.trim())
+    .filter((q: string) => q.length > 0);
+
+  if (questions.length !== list.length) {
+    return { errors: ['Every question must be a non-empty string'] };
+  }
+
+  return { value: questions, errors: [] };
+}
+
+function validateStep(step: any, index: number): ValidationResult<KBAStep> {
+  const label = `steps[${index}]`;
+
+  if (!step || typeof step !== 'object') {
+    return { errors: [`${label} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  if (typeof step.description !== 'string' || step.description.trim().length === 0) {
+    errors.push(`${label}.description must be a non-empty string`);
+  }
+
+  const stepNumber = Number(step.stepNumber);
+  if (step.stepNumber !== undefined && !Number.isFinite(stepNumber)) {
+    errors.push(`${label}.stepNumber must be a number`);
+  }
+
+  for (const field of ['imagePrompt', 'codeSnippet']) {
+    if (step[field] !== undefined && step[field] !== null && typeof step[field] !== 'string') {
+      errors.push(`${label}.${field} must be a string if present`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const imagePrompt = step.imagePrompt ? step.imagePrompt.trim() : undefined;
+  return {
+    value: {
+      stepNumber: Number.isFinite(stepNumber) ? stepNumber : index + 1,
+      description: step.description.trim(),
+      imagePrompt,
+      osType: normalizeOSType(step.osType),
+      codeSnippet: step.codeSnippet || undefined
+    },
+    errors
+  };
+}
+
+/**
+ * Sort by the model's numbering, then renumber 1..n without gaps
+ */
+function renumberSteps(steps: KBAStep[]): KBAStep[] {
+  return steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => a.step.stepNumber - b.step.stepNumber || a.index - b.index)
+    .map(({ step }, index) => ({ ...step, stepNumber: index + 1 }));
+}
+
+function normalizeOSType(value: any): KBAStep['osType'] {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const os = value.trim().toLowerCase();
+  if (['mac', 'macos', 'mac os', 'osx', 'os x', 'darwin'].includes(os)) {
+    return 'mac';
+  }
+  if (['windows', 'win', 'win10', 'win11', 'windows 10', 'windows 11'].includes(os)) {
+    return 'windows';
+  }
+  if (['both', 'all', 'mac and windows', 'windows and mac', 'cross-platform'].includes(os)) {
+    return 'both';
+  }
+  return undefined;
+}
+
+function normalizeTags(value: any): string[] {
+  const list: any[] = typeof value === 'string' ? value.split(',') : value || [];
+  const tags = list
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+}
@@ -0,0 +1,54 @@
+/**
+ * List prices in USD, used to estimate spend. Matched by model name
+ * prefix, longest first, so "gpt-4o-mini-2024-07-18" finds "gpt-4o-mini".
+ * MODEL_PRICE_INPUT_PER_1K / MODEL_PRICE_OUTPUT_PER_1K / MODEL_PRICE_PER_IMAGE
+ * override them, e.g. for Azure deployments with custom names.
+ */
+const CHAT_PRICES_PER_1K: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4-1106': { input: 0.01, output: 0.03 },
+  'gpt-4-0125': { input: 0.01, output: 0.03 },
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 }
+};
+
+const IMAGE_PRICES: Record<string, number> = {
+  'dall-e-3': 0.04, // 1024x1024, standard quality
+  'dall-e-2': 0.02
+};
+
+/**
+ * Estimated cost of a chat completion from its token usage
+ */
+export function estimateCompletionCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = envPrice('MODEL_PRICE_INPUT_PER_1K') !== undefined || envPrice('MODEL_PRICE_OUTPUT_PER_1K') !== undefined
+    ? { input: envPrice('MODEL_PRICE_INPUT_PER_1K') || 0, output: envPrice('MODEL_PRICE_OUTPUT_PER_1K') || 0 }
+    : lookup(CHAT_PRICES_PER_1K, model);
+
+  if (!price) {
+    return 0;
+  }
+  return (promptTokens / 1000) * price.input + (completionTokens / 1000) * price.output;
+}
+
+/**
+ * Estimated cost of generating `count` images
+ */
+export function estimateImageCost(model: string, count: number): number {
+  const price = envPrice('MODEL_PRICE_PER_IMAGE') ?? lookup(IMAGE_PRICES, model) ?? 0;
+  return price * count;
+}
+
+function lookup<T>(prices: Record<string, T>, model: string): T | undefined {
+  const match = Object.keys(prices)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => model.startsWith(prefix));
+  return match ? prices[match] : undefined;
+}
+
+function envPrice(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? parseFloat(value) : undefined;
+}
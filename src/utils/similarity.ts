@@ -0,0 +1,70 @@
+// Words too common in support tickets to say anything about the topic
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'cannot', 'could', 'did', 'do', 'does',
+  'for', 'from', 'get', 'gets', 'getting', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'this', 'to', 'up', 'was', 'we', 'were', 'what', 'when', 'which', 'while', 'who', 'why',
+  'will', 'with', 'you', 'your', 'after', 'before', 'unable', 'issue', 'issues', 'problem', 'error',
+  'user', 'users', 'please', 'working', 'work', 'works', 'still', 'able'
+]);
+
+/**
+ * Lowercase words worth comparing, without stop words or short tokens
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9._-]*[a-z0-9]|[a-z0-9]/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * The most frequent distinct tokens, for use as search terms
+ */
+export function keywords(text: string, limit: number): string[] {
+  const counts = termCounts(tokenize(text));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/**
+ * Cosine similarity of two texts' word counts (0-1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const countsA = termCounts(tokenize(a));
+  const countsB = termCounts(tokenize(b));
+
+  let dot = 0;
+  for (const [word, count] of countsA) {
+    dot += count * (countsB.get(word) || 0);
+  }
+
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(countsA) * norm(countsB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Cosine similarity of two embedding vectors, clamped to 0-1
+ */
+export function vectorSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : Math.max(0, dot / denominator);
+}
+
+function termCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,57 @@
+import { View, ViewOutput } from '@slack/bolt';
+
+export const IMAGE_PROMPT_MODAL_CALLBACK_ID = 'kba_image_prompt_modal';
+
+// Slack limits plain_text_input values to 3000 characters
+const MAX_PROMPT_LENGTH = 3000;
+
+export interface ImagePromptModalState {
+  contextKey: string;
+  imageName: string; // imageFilename() of the image being regenerated
+  prompt: string;
+}
+
+/**
+ * Modal for regenerating one mockup with an edited prompt
+ */
+export function buildImagePromptModal(state: ImagePromptModalState, label: string): View {
+  return {
+    type: 'modal',
+    callback_id: IMAGE_PROMPT_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify({ contextKey: state.contextKey, imageName: state.imageName }),
+    title: { type: 'plain_text', text: 'Regenerate mockup' },
+    submit: { type: 'plain_text', text: 'Regenerate' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: label }]
+      },
+      {
+        type: 'input',
+        block_id: 'prompt',
+        label: { type: 'plain_text', text: 'Image prompt' },
+        hint: { type: 'plain_text', text: 'Describe what the screenshot should show. The step text is not changed.' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          max_length: MAX_PROMPT_LENGTH,
+          initial_value: state.prompt.slice(0, MAX_PROMPT_LENGTH) || undefined
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Read a submitted prompt modal
+ */
+export function readImagePromptModal(view: ViewOutput): ImagePromptModalState {
+  const metadata: { contextKey: string; imageName: string } = JSON.parse(view.private_metadata);
+  return {
+    contextKey: metadata.contextKey,
+    imageName: metadata.imageName,
+    prompt: (view.state.values.prompt?.value?.value || '').trim()
+  };
+}
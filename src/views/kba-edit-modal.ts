@@ -0,0 +1,229 @@
+import { KnownBlock, View, ViewOutput } from '@slack/bolt';
+import { KBAContent } from '../types';
+import { getTemplate } from '../templates/kba-templates';
+
+export const EDIT_MODAL_CALLBACK_ID = 'kba_edit_modal';
+
+const MAX_VIEW_BLOCKS = 100; // Slack's limit per view
+const BLOCKS_PER_STEP = 4;
+
+/**
+ * A step as it exists while the modal is open
+ */
+export interface EditModalStep {
+  id: string;
+  origin?: number; // stepNumber in the draft before editing, if the step already existed
+  description: string;
+  codeSnippet?: string;
+}
+
+export interface EditModalState {
+  contextKey: string;
+  templateId?: string;
+  title: string;
+  problem: string;
+  solution: string;
+  additionalNotes?: string;
+  sections: Record<string, string>;
+  tags: string[];
+  steps: EditModalStep[];
+  hiddenSteps?: number[]; // stepNumbers of steps that don't fit in the modal; kept as they are
+}
+
+interface EditModalMetadata {
+  contextKey: string;
+  templateId?: string;
+  steps: { id: string; origin?: number }[];
+  hiddenSteps?: number[];
+  nextId: number;
+}
+
+/**
+ * How many steps fit in the modal next to the template's other fields,
+ * and either the Add Step button or the notice about steps left out
+ */
+export function maxEditSteps(templateId?: string): number {
+  const fixedBlocks = 6 + getTemplate(templateId).sections.length + 1;
+  return Math.floor((MAX_VIEW_BLOCKS - fixedBlocks) / BLOCKS_PER_STEP);
+}
+
+/**
+ * Build the initial modal state from a draft
+ */
+export function editStateFromContent(contextKey: string, content: KBAContent): EditModalState {
+  return {
+    contextKey,
+    templateId: content.template,
+    title: content.title,
+    problem: content.problem,
+    solution: content.solution,
+    additionalNotes: content.additionalNotes,
+    sections: content.sections || {},
+    tags: content.tags,
+    steps: content.steps.slice(0, maxEditSteps(content.template)).map((step, index) => ({
+      id: `s${index + 1}`,
+      origin: step.stepNumber,
+      description: step.description,
+      codeSnippet: step.codeSnippet
+    })),
+    hiddenSteps: content.steps.slice(maxEditSteps(content.template)).map(step => step.stepNumber)
+  };
+}
+
+/**
+ * Read the current modal values, including edits the user hasn't submitted yet
+ */
+export function readEditModalState(view: ViewOutput): EditModalState & { nextId: number } {
+  const metadata: EditModalMetadata = JSON.parse(view.private_metadata);
+  const values = view.state.values;
+
+  const text = (blockId: string): string | undefined => {
+    const value = values[blockId]?.value?.value;
+    return value ? value.trim() : undefined;
+  };
+
+  const sections: Record<string, string> = {};
+  for (const section of getTemplate(metadata.templateId).sections) {
+    const value = text(`section_${section.key}`);
+    if (value) {
+      sections[section.key] = value;
+    }
+  }
+
+  return {
+    contextKey: metadata.contextKey,
+    templateId: metadata.templateId,
+    hiddenSteps: metadata.hiddenSteps,
+    nextId: metadata.nextId,
+    title: text('title') || '',
+    problem: text('problem') || '',
+    solution: text('solution') || '',
+    additionalNotes: text('additional_notes'),
+    sections,
+    tags: (text('tags') || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0),
+    steps: metadata.steps.map(step => ({
+      id: step.id,
+      origin: step.origin,
+      description: text(`step_${step.id}_description`) || '',
+      codeSnippet: text(`step_${step.id}_code`)
+    }))
+  };
+}
+
+/**
+ * Build the Block Kit modal for editing a draft
+ */
+export function buildEditModal(state: EditModalState, nextId?: number): View {
+  const metadata: EditModalMetadata = {
+    contextKey: state.contextKey,
+    templateId: state.templateId,
+    steps: state.steps.map(step => ({ id: step.id, origin: step.origin })),
+    hiddenSteps: state.hiddenSteps,
+    nextId: nextId ?? state.steps.length + 1
+  };
+  const hidden = state.hiddenSteps || [];
+
+  const template = getTemplate(state.templateId);
+  const blocks: KnownBlock[] = [
+    textInput('title', 'Title', state.title),
+    textInput('problem', template.headings.problem, state.problem, { multiline: true }),
+    textInput('solution', template.headings.solution, state.solution, { multiline: true }),
+    ...template.sections.map(section => textInput(
+      `section_${section.key}`,
+      section.heading,
+      state.sections[section.key],
+      { multiline: true, optional: section.optional }
+    )),
+    textInput('additional_notes', template.headings.additionalNotes, state.additionalNotes, { multiline: true, optional: true }),
+    textInput('tags', 'Tags', state.tags.join(', '), { optional: true, hint: 'Comma-separated' }),
+    { type: 'divider' }
+  ];
+
+  state.steps.forEach((step, index) => {
+    const moveButtons = [];
+    if (index > 0) {
+      moveButtons.push(button('Move Up', 'edit_step_up', step.id));
+    }
+    if (index < state.steps.length - 1) {
+      moveButtons.push(button('Move Down', 'edit_step_down', step.id));
+    }
+
+    blocks.push(
+      {
+        type: 'section',
+        block_id: `step_${step.id}_header`,
+        text: { type: 'mrkdwn', text: `*Step ${index + 1}*` }
+      },
+      {
+        type: 'actions',
+        block_id: `step_${step.id}_actions`,
+        elements: [
+          ...moveButtons,
+          { ...button('Delete', 'edit_step_delete', step.id), style: 'danger' }
+        ]
+      },
+      textInput(`step_${step.id}_description`, 'Description', step.description, { multiline: true }),
+      textInput(`step_${step.id}_code`, 'Code Snippet', step.codeSnippet, { multiline: true, optional: true })
+    );
+  });
+
+  if (hidden.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `:information_source: Only the first ${state.steps.length} steps fit in this editor. ` +
+          `The other ${hidden.length} are kept as they are after these; use Request Changes to rework them.`
+      }]
+    });
+  } else if (state.steps.length < maxEditSteps(state.templateId)) {
+    blocks.push({
+      type: 'actions',
+      block_id: 'add_step',
+      elements: [button('Add Step', 'edit_step_add', 'add')]
+    });
+  }
+
+  return {
+    type: 'modal',
+    callback_id: EDIT_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify(metadata),
+    title: { type: 'plain_text', text: 'Edit KBA' },
+    submit: { type: 'plain_text', text: 'Save' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks
+  };
+}
+
+function textInput(
+  blockId: string,
+  label: string,
+  initialValue: string | undefined,
+  options: { multiline?: boolean; optional?: boolean; hint?: string } = {}
+): KnownBlock {
+  return {
+    type: 'input',
+    block_id: blockId,
+    optional: options.optional,
+    label: { type: 'plain_text', text: label },
+    hint: options.hint ? { type: 'plain_text', text: options.hint } : undefined,
+    element: {
+      type: 'plain_text_input',
+      action_id: 'value',
+      multiline: options.multiline,
+      initial_value: initialValue || undefined
+    }
+  };
+}
+
+function button(text: string, actionId: string, value: string) {
+  return {
+    type: 'button' as const,
+    text: { type: 'plain_text' as const, text },
+    action_id: actionId,
+    value
+  };
+}
@@ -0,0 +1,642 @@
+import { App, Button, KnownBlock } from '@slack/bolt';
+import { JiraService } from '../services/jira.service';
+import { KBAModelProvider, ModelUsage } from '../services/model-provider';
+import { ConfluenceService } from '../services/confluence.service';
+import { RedactionService } from '../services/redaction.service';
+import { describeServiceError } from '../services/http-client';
+import { QuotaService, plannedImages } from '../services/quota.service';
+import { ContextStore } from '../stores/context-store';
+import { AuditEvent, AuditEventType, AuditLog, usageFields } from '../stores/audit-log';
+import { ImageCache } from '../stores/image-cache';
+import { BatchItem, GeneratedImage, ImageFailure, KBABatch, KBAContent, Redaction } from '../types';
+import { KBAGeneratorWorkflow } from './kba-generator';
+import { formatImageFailures } from '../utils/image-jobs';
+import { getTemplate, sectionText, selectTemplate, templateLayout } from '../templates/kba-templates';
+
+// Slack rejects section text longer than 3000 characters
+const MAX_SECTION_LENGTH = 2900;
+const MAX_LISTED_FAILURES = 10;
+
+/**
+ * Generates KBAs for every ticket matching a JQL query without asking
+ * questions, then lets reviewers approve or reject them one by one
+ */
+export class KBABatchWorkflow {
+  private batches: ContextStore<KBABatch>;
+  private maxTickets: number;
+  private generateImages: boolean;
+  private publishing: Set<string> = new Set();
+
+  constructor(
+    private app: App,
+    private jiraService: JiraService,
+    private modelProvider: KBAModelProvider,
+    private confluenceService: ConfluenceService,
+    private redactionService: RedactionService,
+    private quotaService: QuotaService,
+    private generator: KBAGeneratorWorkflow,
+    batchStore: ContextStore<KBABatch>,
+    private auditLog: AuditLog,
+    private imageCache: ImageCache
+  ) {
+    this.batches = batchStore;
+    this.maxTickets = parseInt(process.env.BATCH_MAX_TICKETS || '50', 10);
+    // Images cost more than the text, and batches can be large
+    this.generateImages = process.env.BATCH_GENERATE_IMAGES === 'true';
+  }
+
+  /**
+   * Continue batches that were interrupted by a restart
+   */
+  async resumeBatches(): Promise<void> {
+    for (const [batchId, batch] of await this.batches.entries()) {
+      if (batch.status === 'generating') {
+        this.generateDrafts(batchId).catch(error => {
+          console.error(`Failed to resume batch ${batchId}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Search Jira and queue every match for generation
+   */
+  async startBatch(channel: string, userId: string, jql: string): Promise<string> {
+    const quota = await this.quotaService.checkGeneration(userId, channel);
+    if (!quota.allowed) {
+      throw new Error(quota.reason);
+    }
+
+    const tickets = await this.jiraService.searchTickets(jql, this.maxTickets);
+    if (tickets.length === 0) {
+      throw new Error('No tickets match that query');
+    }
+
+    const root = await this.app.client.chat.postMessage({
+      channel,
+      text: `:package: Starting batch KBA generation for ${tickets.length} ticket(s)...`
+    });
+
+    const batchId = `${channel}-${root.ts}`;
+    const batch: KBABatch = {
+      id: batchId,
+      jql,
+      channel,
+      messageTs: root.ts!,
+      userId,
+      status: 'generating',
+      items: tickets.map(ticket => ({
+        ticketKey: ticket.key,
+        summary: ticket.summary,
+        status: 'queued'
+      })),
+      createdAt: new Date().toISOString()
+    };
+    await this.batches.set(batchId, batch);
+    await this.updateProgress(batch);
+
+    // Generation takes minutes; run it in the background
+    this.generateDrafts(batchId).catch(error => {
+      console.error(`Batch ${batchId} failed:`, error);
+    });
+
+    return batchId;
+  }
+
+  /**
+   * Generate a draft for each queued ticket, skipping those with a KBA
+   */
+  private async generateDrafts(batchId: string): Promise<void> {
+    let batch = await this.batches.get(batchId);
+
+    while (batch && batch.status === 'generating') {
+      const item = batch.items.find(i => i.status === 'queued');
+      if (!item) {
+        break;
+      }
+
+      // Each draft counts against the quotas of whoever started the batch. Checked before
+      // anything is fetched, and once they run out no other ticket is tried.
+      const quota = await this.quotaService.reserveGeneration(batch.userId, batch.channel);
+      if (!quota.allowed) {
+        batch = await this.stopForQuota(batchId, quota.reason!);
+        break;
+      }
+
+      try {
+        const existingPage = await this.confluenceService.findPageByJiraKey(item.ticketKey);
+        if (existingPage) {
+          item.status = 'skipped';
+          item.existingPage = existingPage;
+        } else {
+          const redactions: Redaction[] = [];
+          const jiraTicket = this.redactionService.redactTicket(
+            await this.jiraService.getTicket(item.ticketKey),
+            redactions
+          );
+          await this.audit(batch, item, 'ticket_fetched', batch.userId);
+
+          const usage: ModelUsage[] = [];
+          const template = selectTemplate(jiraTicket);
+          let content: KBAContent | undefined;
+          try {
+            content = await this.modelProvider.generateKBAContent(jiraTicket, {}, {
+              template,
+              onUsage: u => usage.push(u)
+            });
+          } finally {
+            await this.audit(batch, item, 'generation', batch.userId, {
+              ...usageFields(usage),
+              detail: `${template.name}, ${content ? `${content.steps.length} step(s)` : 'failed'}`
+            });
+            quota.release();
+          }
+
+          const imageUsage: ModelUsage[] = [];
+          const imageQuota = this.generateImages && content.steps.some(s => s.imagePrompt)
+            ? await this.quotaService.reserveImages(batch.userId, batch.channel, plannedImages(content.steps))
+            : undefined;
+          let cachedImages: GeneratedImage[] = [];
+          let failures: ImageFailure[] = [];
+          if (imageQuota?.allowed) {
+            try {
+              const result = await this.modelProvider.generateImages(content, u => imageUsage.push(u));
+              failures = result.failures;
+              // Drafts can sit in the queue far longer than generated URLs last
+              cachedImages = await this.imageCache.cacheImages(result.images);
+              if (imageUsage.length > 0) {
+                await this.audit(batch, item, 'images_generated', batch.userId, {
+                  ...usageFields(imageUsage),
+                  images: result.images.length,
+                  detail: failures.length > 0 ? `${failures.length} image(s) failed` : undefined
+                });
+              }
+            } finally {
+              imageQuota.release();
+            }
+          }
+
+          // Batch reviews have no restore controls, so placeholders publish as "[redacted ...]"
+          item.kbaDraft = {
+            jiraTicket,
+            content,
+            images: cachedImages,
+            failedImages: failures,
+            redactions,
+            requestedBy: batch.userId
+          };
+          item.status = 'pending_review';
+        }
+      } catch (error: any) {
+        console.error(`Batch ${batchId}: failed to generate ${item.ticketKey}:`, error);
+        item.status = 'failed';
+        item.error = describeServiceError(error);
+      } finally {
+        quota.release();
+      }
+
+      // Re-read so a cancel or review that happened meanwhile isn't overwritten
+      const latest = await this.batches.get(batchId);
+      if (!latest) {
+        return;
+      }
+      const index = latest.items.findIndex(i => i.ticketKey === item.ticketKey);
+      latest.items[index] = item;
+      batch = latest;
+
+      await this.batches.set(batchId, batch);
+      await this.updateProgress(batch);
+    }
+
+    if (batch && batch.status === 'generating') {
+      batch.status = 'reviewing';
+      await this.finishIfReviewed(batch);
+      await this.notifyReviewers(batch);
+    }
+  }
+
+  /**
+   * Skip the tickets not generated yet and say once why
+   */
+  private async stopForQuota(batchId: string, reason: string): Promise<KBABatch | undefined> {
+    const batch = await this.batches.get(batchId);
+    if (!batch) {
+      return undefined;
+    }
+
+    const stopped = batch.items.filter(i => i.status === 'queued');
+    for (const item of stopped) {
+      item.status = 'skipped';
+      item.error = 'Not generated: quota reached';
+    }
+    await this.batches.set(batchId, batch);
+
+    await this.app.client.chat.postMessage({
+      channel: batch.channel,
+      thread_ts: batch.messageTs,
+      text: `:no_entry: ${reason} The remaining ${stopped.length} ticket(s) were not generated.`
+    });
+    return batch;
+  }
+
+  /**
+   * Post (or move) the review card to the next draft awaiting review
+   */
+  async startReview(batchId: string): Promise<void> {
+    const batch = await this.batches.get(batchId);
+    if (!batch) {
+      return;
+    }
+
+    if (batch.reviewTs) {
+      // Replace the old card so only one copy of the queue is clickable
+      await this.app.client.chat.delete({ channel: batch.channel, ts: batch.reviewTs }).catch(() => undefined);
+    }
+
+    const next = batch.items.find(i => i.status === 'pending_review');
+    const result = await this.app.client.chat.postMessage({
+      channel: batch.channel,
+      thread_ts: batch.messageTs,
+      text: next ? `Review draft for ${next.ticketKey}` : 'No drafts are waiting for review',
+      blocks: this.buildReviewBlocks(batch, next)
+    });
+
+    batch.reviewTs = result.ts;
+    await this.batches.set(batchId, batch);
+  }
+
+  /**
+   * Approve or reject one draft and advance the review card
+   */
+  async reviewItem(
+    batchId: string,
+    ticketKey: string,
+    decision: 'approve' | 'reject' | 'skip',
+    userId: string
+  ): Promise<void> {
+    let batch = await this.batches.get(batchId);
+    if (!batch) {
+      return;
+    }
+
+    const item = batch.items.find(i => i.ticketKey === ticketKey);
+    const publishKey = `${batchId}|${ticketKey}`;
+    if (!item || item.status !== 'pending_review' || this.publishing.has(publishKey)) {
+      // Someone else already handled it; just refresh the card
+      await this.showNextReview(batch);
+      return;
+    }
+
+    if (decision === 'approve') {
+      const refusal = await this.generator.approvalRefusal(item.kbaDraft!, userId);
+      if (refusal) {
+        await this.app.client.chat.postEphemeral({
+          channel: batch.channel,
+          thread_ts: batch.messageTs,
+          user: userId,
+          text: `:no_entry: ${refusal}`
+        });
+        return;
+      }
+    }
+
+    let update: Partial<BatchItem> = {};
+    const remaining = decision === 'approve' ? this.generator.addApproval(item.kbaDraft!, userId) : 0;
+    if (decision === 'approve') {
+      await this.audit(batch, item, 'approval', userId, {
+        detail: remaining > 0 ? `${remaining} more approval(s) needed` : 'fully approved'
+      });
+    }
+
+    if (decision === 'reject') {
+      update = { status: 'rejected', reviewedBy: userId, kbaDraft: undefined };
+      await this.audit(batch, item, 'cancelled', userId, { detail: 'rejected in batch review' });
+    } else if (decision === 'approve' && remaining > 0) {
+      update = { kbaDraft: item.kbaDraft };
+      await this.app.client.chat.postMessage({
+        channel: batch.channel,
+        thread_ts: batch.messageTs,
+        text: `:ballot_box_with_check: <@${userId}> approved *${ticketKey}*. ${remaining} more approval(s) needed before it is published.`
+      });
+    } else if (decision === 'approve') {
+      await this.updateReviewCard(batch, `:rocket: Publishing *${ticketKey}*...`);
+      this.publishing.add(publishKey);
+
+      try {
+        const kbaDraft = item.kbaDraft!;
+        const { results, failures, writeBackErrors } = await this.generator.publishDraft(kbaDraft, userId, batch.channel);
+        if (results.length > 0) {
+          await this.audit(batch, item, 'published', userId, {
+            detail: results.map(result => `${result.publisher}: ${result.url || result.detail}`).join('; ')
+          });
+        }
+
+        if (failures.length === 0) {
+          update = { status: 'approved', reviewedBy: userId, pageUrl: results.find(r => r.url)?.url, kbaDraft: undefined };
+        } else {
+          // Remember what succeeded so approving again only retries the rest
+          update = { kbaDraft };
+          await this.app.client.chat.postMessage({
+            channel: batch.channel,
+            thread_ts: batch.messageTs,
+            text: `:warning: Publishing *${ticketKey}* failed for ${failures.length} destination(s). It is still in the queue.\n` +
+              failures.map(f => `• *${f.publisher}*: ${f.error}`).join('\n') +
+              (results.length > 0 ? `\n\nAlready published:\n${this.generator.formatPublishResults(results)}` : '')
+          });
+        }
+
+        if (writeBackErrors.length > 0) {
+          await this.app.client.chat.postMessage({
+            channel: batch.channel,
+            thread_ts: batch.messageTs,
+            text: `:warning: *${ticketKey}* is published, but updating the Jira ticket partly failed:\n` +
+              writeBackErrors.map(e => `• ${e}`).join('\n')
+          });
+        }
+      } catch (error: any) {
+        console.error(`Batch ${batchId}: failed to publish ${ticketKey}:`, error);
+        await this.app.client.chat.postMessage({
+          channel: batch.channel,
+          thread_ts: batch.messageTs,
+          text: `:x: Error publishing *${ticketKey}*: ${describeServiceError(error)}. It is still in the queue.`
+        });
+      } finally {
+        this.publishing.delete(publishKey);
+      }
+    }
+
+    // Publishing is slow; apply the decision to the latest copy of the batch
+    const latest = await this.batches.get(batchId);
+    if (!latest) {
+      return;
+    }
+    const current = latest.items.find(i => i.ticketKey === ticketKey)!;
+    Object.assign(current, update);
+    if (decision === 'skip') {
+      // Move to the back of the queue
+      latest.items = [...latest.items.filter(i => i !== current), current];
+    }
+    batch = latest;
+
+    await this.batches.set(batchId, batch);
+    await this.updateProgress(batch);
+    await this.showNextReview(batch);
+    await this.finishIfReviewed(batch);
+  }
+
+  /**
+   * Stop generating; drafts already generated stay in the queue
+   */
+  async cancelBatch(batchId: string, userId: string): Promise<void> {
+    const batch = await this.batches.get(batchId);
+    if (!batch || batch.status !== 'generating') {
+      return;
+    }
+
+    for (const item of batch.items) {
+      if (item.status === 'queued') {
+        item.status = 'skipped';
+        item.error = `Cancelled by <@${userId}>`;
+      }
+    }
+    batch.status = 'reviewing';
+
+    await this.batches.set(batchId, batch);
+    await this.finishIfReviewed(batch);
+  }
+
+  /**
+   * List batches that are still generating or waiting for review
+   */
+  async listBatches(): Promise<KBABatch[]> {
+    return (await this.batches.entries()).map(([, batch]) => batch);
+  }
+
+  /**
+   * Mention the space's approvers once drafts are waiting in the queue
+   */
+  private async notifyReviewers(batch: KBABatch): Promise<void> {
+    const pending = batch.items.filter(i => i.status === 'pending_review').length;
+    const mentions = this.generator.reviewerMentions();
+    if (pending === 0 || !mentions) {
+      return;
+    }
+
+    await this.app.client.chat.postMessage({
+      channel: batch.channel,
+      thread_ts: batch.messageTs,
+      text: `:eyes: ${mentions}: ${pending} draft(s) from this batch are ready for review.`
+    });
+  }
+
+  /**
+   * Append a workflow event for one batch item to the audit log
+   */
+  private async audit(
+    batch: KBABatch,
+    item: BatchItem,
+    type: AuditEventType,
+    userId: string,
+    details: Partial<AuditEvent> = {}
+  ): Promise<void> {
+    await this.auditLog.append({
+      type,
+      userId,
+      channel: batch.channel,
+      ticketKey: item.ticketKey,
+      conversation: `batch:${batch.id}:${item.ticketKey}`,
+      requestedBy: batch.userId,
+      ...details
+    });
+  }
+
+  private async showNextReview(batch: KBABatch): Promise<void> {
+    const next = batch.items.find(i => i.status === 'pending_review');
+    await this.updateReviewCard(batch, next ? undefined : ':tada: No more drafts waiting for review.', next);
+  }
+
+  private async updateReviewCard(batch: KBABatch, text?: string, item?: BatchItem): Promise<void> {
+    if (!batch.reviewTs) {
+      return;
+    }
+
+    await this.app.client.chat.update({
+      channel: batch.channel,
+      ts: batch.reviewTs,
+      text: text || `Review draft for ${item?.ticketKey}`,
+      blocks: text
+        ? [{ type: 'section', text: { type: 'mrkdwn', text } }]
+        : this.buildReviewBlocks(batch, item)
+    });
+  }
+
+  /**
+   * Mark the batch complete once nothing is left to generate or review
+   */
+  private async finishIfReviewed(batch: KBABatch): Promise<void> {
+    const open = batch.items.some(i => i.status === 'queued' || i.status === 'pending_review');
+    if (batch.status !== 'generating' && !open) {
+      batch.status = 'complete';
+    }
+
+    await this.updateProgress(batch);
+
+    if (batch.status === 'complete') {
+      await this.batches.delete(batch.id);
+    } else {
+      await this.batches.set(batch.id, batch);
+    }
+  }
+
+  /**
+   * Rewrite the batch's root message with current counts
+   */
+  private async updateProgress(batch: KBABatch): Promise<void> {
+    const count = (status: BatchItem['status']) => batch.items.filter(i => i.status === status).length;
+    const processed = batch.items.length - count('queued');
+
+    let text = `:package: *Batch KBA generation* requested by <@${batch.userId}>\n`;
+    text += `\`${batch.jql}\`\n\n`;
+    text += batch.status === 'generating'
+      ? `*Progress:* ${processed}/${batch.items.length} ticket(s) processed\n`
+      : `*Generation finished:* ${batch.items.length} ticket(s)\n`;
+    text += `• :memo: ${count('pending_review')} awaiting review\n`;
+    text += `• :white_check_mark: ${count('approved')} approved\n`;
+    text += `• :no_entry_sign: ${count('rejected')} rejected\n`;
+    text += `• :fast_forward: ${count('skipped')} skipped\n`;
+    text += `• :x: ${count('failed')} failed\n`;
+
+    const failures = batch.items.filter(i => i.status === 'failed');
+    if (failures.length > 0) {
+      text += `\n*Failures:*\n`;
+      text += failures.slice(0, MAX_LISTED_FAILURES).map(i => `• ${i.ticketKey}: ${i.error}`).join('\n');
+      if (failures.length > MAX_LISTED_FAILURES) {
+        text += `\n_...and ${failures.length - MAX_LISTED_FAILURES} more_`;
+      }
+    }
+
+    if (batch.status === 'complete') {
+      text += `\n\n:checkered_flag: *Batch complete.*`;
+    }
+
+    const blocks: KnownBlock[] = [
+      { type: 'section', text: { type: 'mrkdwn', text: truncate(text) } }
+    ];
+
+    const buttons: Button[] = [];
+    if (count('pending_review') > 0) {
+      buttons.push({
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: 'Review Drafts'
+        },
+        style: 'primary',
+        action_id: 'batch_review',
+        value: batch.id
+      });
+    }
+    if (batch.status === 'generating') {
+      buttons.push({
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: 'Stop Generating'
+        },
+        style: 'danger',
+        action_id: 'batch_cancel',
+        value: batch.id
+      });
+    }
+    if (buttons.length > 0) {
+      blocks.push({ type: 'actions', elements: buttons });
+    }
+
+    try {
+      await this.app.client.chat.update({
+        channel: batch.channel,
+        ts: batch.messageTs,
+        text: `Batch KBA generation: ${processed}/${batch.items.length} processed`,
+        blocks
+      });
+    } catch (error) {
+      console.error(`Failed to update progress for batch ${batch.id}:`, error);
+    }
+  }
+
+  private buildReviewBlocks(batch: KBABatch, item?: BatchItem): KnownBlock[] {
+    if (!item || !item.kbaDraft) {
+      return [{ type: 'section', text: { type: 'mrkdwn', text: ':tada: No more drafts waiting for review.' } }];
+    }
+
+    const { content, images, failedImages } = item.kbaDraft;
+    const remaining = batch.items.filter(i => i.status === 'pending_review').length;
+
+    const template = getTemplate(content.template);
+    let preview = `*<${process.env.JIRA_HOST}/browse/${item.ticketKey}|${item.ticketKey}>* - ${item.summary}\n\n`;
+    preview += `*Title:* ${content.title} _(${template.name})_\n\n`;
+    for (const entry of templateLayout(template)) {
+      const text = entry.key === 'steps'
+        ? content.steps.map(s => `${s.stepNumber}. ${s.description}`).join('\n')
+        : sectionText(content, entry);
+      if (text) {
+        preview += `*${entry.heading}:*\n${text}\n\n`;
+      }
+    }
+    preview += `*Tags:* ${content.tags.join(', ')}`;
+    if (images.length > 0) {
+      preview += `\n*Generated Images:* ${images.length} screenshot mockup(s)`;
+    }
+    if (failedImages && failedImages.length > 0) {
+      preview += `\n:warning: *Mockups that could not be generated:*\n${formatImageFailures(failedImages)}`;
+    }
+
+    const value = `${batch.id}|${item.ticketKey}`;
+
+    return [
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `:memo: ${remaining} draft(s) awaiting review` }]
+      },
+      { type: 'section', text: { type: 'mrkdwn', text: truncate(preview) } },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '✅ Approve & Publish'
+            },
+            style: 'primary',
+            action_id: 'batch_approve',
+            value
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '🚫 Reject'
+            },
+            style: 'danger',
+            action_id: 'batch_reject',
+            value
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '⏭️ Skip for Now'
+            },
+            action_id: 'batch_skip',
+            value
+          }
+        ]
+      }
+    ];
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SECTION_LENGTH ? `${text.slice(0, MAX_SECTION_LENGTH)}…` : text;
+}
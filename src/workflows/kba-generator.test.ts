@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '@slack/bolt';
+import { KBAGeneratorWorkflow } from './kba-generator';
+import { ApprovalPolicyService } from '../services/approval-policy.service';
+import { KBADraft } from '../types';
+
+const GROUP_MEMBERS = ['UGROUP'];
+
+/**
+ * A workflow with only what approval counting needs: the approval policy
+ * and the Confluence space it is looked up for. S-prefixed approvers are
+ * user groups; GROUP_MEMBERS lists who is in them.
+ */
+function workflow(policy: { approvers?: string; allowSelf?: boolean; required?: number }): KBAGeneratorWorkflow {
+  process.env.APPROVAL_APPROVERS = policy.approvers || '';
+  process.env.APPROVAL_ALLOW_SELF = String(policy.allowSelf ?? true);
+  process.env.APPROVAL_REQUIRED = String(policy.required ?? 1);
+  delete process.env.APPROVAL_POLICY_PATH;
+
+  const app = {
+    client: { usergroups: { users: { list: async () => ({ users: GROUP_MEMBERS }) } } }
+  } as unknown as App;
+  const confluence = { getSpaceKey: () => 'KB' } as any;
+
+  return new KBAGeneratorWorkflow(
+    app, {} as any, {} as any, confluence, {} as any, {} as any, new ApprovalPolicyService(app),
+    {} as any, new Map(), {} as any, {} as any, {} as any
+  );
+}
+
+function draft(approvals: string[] = []): KBADraft {
+  return {
+    jiraTicket: {
+      key: 'SUP-1',
+      summary: '',
+      description: '',
+      issueType: 'Bug',
+      priority: 'Medium',
+      status: 'Done',
+      created: '',
+      updated: ''
+    },
+    content: { title: 'Title', problem: 'Problem', solution: 'Solution', steps: [], tags: [] },
+    images: [],
+    requestedBy: 'UREQ',
+    approvals
+  };
+}
+
+test('each approver counts once until enough have approved', () => {
+  const kba = workflow({ required: 2 });
+  const kbaDraft = draft();
+
+  assert.equal(kba.addApproval(kbaDraft, 'U1'), 1);
+  assert.equal(kba.addApproval(kbaDraft, 'U1'), 1);
+  assert.equal(kba.addApproval(kbaDraft, 'U2'), 0);
+  assert.equal(kba.addApproval(kbaDraft, 'U3'), 0);
+  assert.deepEqual(kbaDraft.approvals, ['U1', 'U2']);
+});
+
+test('a single approval is enough by default', () => {
+  const kbaDraft = draft();
+  assert.equal(workflow({}).addApproval(kbaDraft, 'U1'), 0);
+  assert.deepEqual(kbaDraft.approvals, ['U1']);
+});
+
+test('a second approval from the same reviewer is refused', async () => {
+  const refusal = await workflow({ required: 2 }).approvalRefusal(draft(['U1']), 'U1');
+  assert.match(refusal!, /already approved/);
+});
+
+test('a fully approved draft can be approved again to retry publishing', async () => {
+  assert.equal(await workflow({ required: 2 }).approvalRefusal(draft(['U1', 'U2']), 'U1'), null);
+});
+
+test('the requester may not approve when self-approval is off', async () => {
+  const kba = workflow({ allowSelf: false });
+  assert.match((await kba.approvalRefusal(draft(), 'UREQ'))!, /self-approval is not allowed for the KB space/);
+  assert.equal(await kba.approvalRefusal(draft(), 'U1'), null);
+});
+
+test('only listed approvers and members of listed groups may approve', async () => {
+  const kba = workflow({ approvers: 'UAPPROVER,SGROUP' });
+
+  assert.equal(await kba.approvalRefusal(draft(), 'UAPPROVER'), null);
+  assert.equal(await kba.approvalRefusal(draft(), 'UGROUP'), null);
+  assert.equal(
+    await kba.approvalRefusal(draft(), 'UOTHER'),
+    'Only <@UAPPROVER>, <!subteam^SGROUP> can approve KBAs for the KB space.'
+  );
+});
@@ -1,24 +1,165 @@
-import { App } from '@slack/bolt';
+import { App, KnownBlock, ViewOutput } from '@slack/bolt';
+import axios from 'axios';
 import { JiraService } from '../services/jira.service';
-import { OpenAIService } from '../services/openai.service';
+import { ImageGenerationResult, KBAModelProvider, ModelUsage } from '../services/model-provider';
 import { ConfluenceService } from '../services/confluence.service';
-import { ConversationContext, KBADraft } from '../types';
+import { SimilarityService } from '../services/similarity.service';
+import { RedactionService } from '../services/redaction.service';
+import { ApprovalPolicyService } from '../services/approval-policy.service';
+import { QuotaService, plannedImages } from '../services/quota.service';
+import { NotFoundError, describeServiceError } from '../services/http-client';
+import { KBAPublisher, PublishResult, publishTargets } from '../services/publisher';
+import { ContextStore } from '../stores/context-store';
+import { AuditEvent, AuditEventType, AuditLog, usageFields } from '../stores/audit-log';
+import { ImageCache } from '../stores/image-cache';
+import { ConversationContext, GeneratedImage, ImageFailure, KBAContent, KBADraft, KBAStep, Redaction, SimilarArticle } from '../types';
+import { ModelOutputError } from '../utils/kba-validation';
+import { parseAnswers, unansweredQuestions } from '../utils/answer-parser';
+import { diffKBAContent, formatKBADiff, matchRevisedSteps } from '../utils/kba-diff';
+import { envInt } from '../utils/env';
+import { ImageJobState, ImageProgressListener, formatImageFailures, formatImageProgress, osLabel } from '../utils/image-jobs';
+import { buildEditModal, editStateFromContent, readEditModalState } from '../views/kba-edit-modal';
+import { buildImagePromptModal, readImagePromptModal } from '../views/image-prompt-modal';
+import { EXPORT_FORMATS, ExportFormat, imageFilename, imageLabel, renderHTML, renderMarkdown, renderPDF } from '../utils/kba-export';
+import { KBA_TEMPLATES, getTemplate, sectionText, selectTemplate, templateLayout } from '../templates/kba-templates';
+
+const MAX_OFFERED_ATTACHMENTS = 10;
+const MAX_RESTORABLE_REDACTIONS = 10; // Slack checkbox groups hold at most 10 options
+const PROGRESS_UPDATE_INTERVAL_MS = 1500; // Keeps chat.update well under Slack's rate limit
+const MAX_IMAGE_ACTIONS = 40; // Slack messages hold at most 50 blocks
+
+/**
+ * Filename the mockup would have had, so menus can refer to a failed image
+ */
+function failedImageName(failure: ImageFailure): string {
+  return imageFilename({ stepNumber: failure.stepNumber, osType: failure.osType, url: '', prompt: '' });
+}
 
 export class KBAGeneratorWorkflow {
-  private contexts: Map<string, ConversationContext> = new Map();
+  private contexts: ContextStore;
   private jiraService: JiraService;
-  private openaiService: OpenAIService;
+  private modelProvider: KBAModelProvider;
   private confluenceService: ConfluenceService;
+  private similarityService: SimilarityService;
+  private redactionService: RedactionService;
+  private approvalPolicy: ApprovalPolicyService;
+  private quotaService: QuotaService;
+  private publishers: Map<string, KBAPublisher>;
+  private auditLog: AuditLog;
+  private imageCache: ImageCache;
+  private approving: Set<string> = new Set(); // Context keys whose approval is being handled
 
   constructor(
     private app: App,
     jiraService: JiraService,
-    openaiService: OpenAIService,
-    confluenceService: ConfluenceService
+    modelProvider: KBAModelProvider,
+    confluenceService: ConfluenceService,
+    similarityService: SimilarityService,
+    redactionService: RedactionService,
+    approvalPolicy: ApprovalPolicyService,
+    quotaService: QuotaService,
+    publishers: Map<string, KBAPublisher>,
+    contextStore: ContextStore,
+    auditLog: AuditLog,
+    imageCache: ImageCache
   ) {
     this.jiraService = jiraService;
-    this.openaiService = openaiService;
+    this.modelProvider = modelProvider;
     this.confluenceService = confluenceService;
+    this.similarityService = similarityService;
+    this.redactionService = redactionService;
+    this.approvalPolicy = approvalPolicy;
+    this.quotaService = quotaService;
+    this.publishers = publishers;
+    this.contexts = contextStore;
+    this.auditLog = auditLog;
+    this.imageCache = imageCache;
+  }
+
+  /**
+   * Rehydrate conversations persisted before a restart. Interrupted
+   * generations are picked up in the background, RESUME_CONCURRENCY at a
+   * time, so startup doesn't wait for them.
+   */
+  async resumeContexts(): Promise<void> {
+    const entries = await this.contexts.entries();
+    const generating: string[] = [];
+    let resumed = 0;
+
+    for (const [contextKey, context] of entries) {
+      try {
+        switch (context.stage) {
+          case 'complete':
+            await this.contexts.delete(contextKey);
+            break;
+
+          case 'generating':
+            // Generation was interrupted, but the ticket and answers are still here
+            await this.sendMessage(
+              context.channel,
+              context.threadTs,
+              ':arrows_counterclockwise: I was restarted while generating this KBA. Picking up where I left off...'
+            );
+            resumed++;
+            generating.push(contextKey);
+            break;
+
+          case 'publishing':
+            // The restart may have come before or after some destinations were reached
+            context.stage = 'review';
+            await this.contexts.set(contextKey, context);
+            resumed++;
+            await this.postReviewActions(
+              contextKey,
+              ':warning: I was restarted while publishing this KBA. Check whether it reached its destinations before approving it again.'
+            );
+            break;
+
+          case 'initial':
+          case 'analyzing':
+            await this.sendMessage(
+              context.channel,
+              context.threadTs,
+              ':warning: I was restarted before I finished analyzing this ticket, so this request could not be recovered. Please post the Jira ticket again to start over.'
+            );
+            await this.contexts.delete(contextKey);
+            break;
+
+          default:
+            // Question and review threads continue as-is
+            resumed++;
+        }
+      } catch (error) {
+        console.error(`Failed to resume context ${contextKey}:`, error);
+      }
+    }
+
+    console.log(`Rehydrated ${resumed} active KBA conversation(s)`);
+
+    this.resumeGenerations(generating).catch(error => {
+      console.error('Failed to resume generations:', error);
+    });
+  }
+
+  /**
+   * Generate the drafts interrupted by a restart with at most
+   * RESUME_CONCURRENCY in flight
+   */
+  private async resumeGenerations(contextKeys: string[]): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < contextKeys.length) {
+        const contextKey = contextKeys[next++];
+        try {
+          await this.generateKBA(contextKey);
+        } catch (error) {
+          console.error(`Failed to resume context ${contextKey}:`, error);
+        }
+      }
+    };
+
+    const workers = Math.min(envInt('RESUME_CONCURRENCY', 2, 1), contextKeys.length);
+    await Promise.all(Array.from({ length: workers }, worker));
   }
 
   /**
@@ -42,7 +183,15 @@ export class KBAGeneratorWorkflow {
         return;
       }
 
-      const ticket = await this.jiraService.getTicket(ticketKey);
+      const quota = await this.quotaService.checkGeneration(userId, channel);
+      if (!quota.allowed) {
+        await this.sendMessage(channel, threadTs, `:no_entry: ${quota.reason}`);
+        return;
+      }
+
+      // Only the redacted ticket is kept, so nothing downstream can send the originals to a model
+      const redactions: Redaction[] = [];
+      const ticket = this.redactionService.redactTicket(await this.jiraService.getTicket(ticketKey), redactions);
 
       // Create context
       const context: ConversationContext = {
@@ -50,11 +199,14 @@ export class KBAGeneratorWorkflow {
         channel,
         userId,
         jiraTicket: ticket,
+        templateId: selectTemplate(ticket).id,
+        redactions,
         stage: 'analyzing',
         questionsAsked: [],
         userAnswers: {}
       };
-      this.contexts.set(contextKey, context);
+      await this.contexts.set(contextKey, context);
+      await this.audit(context, 'ticket_fetched', userId);
 
       // Show ticket summary
       await this.sendMessage(
@@ -62,201 +214,143 @@ export class KBAGeneratorWorkflow {
         threadTs,
         `:white_check_mark: Found ticket: *${ticket.key} - ${ticket.summary}*\n\n` +
         `Status: ${ticket.status}\n` +
-        `Priority: ${ticket.priority}\n\n` +
-        `:brain: Analyzing ticket to determine what additional information is needed...`
+        `Priority: ${ticket.priority}` +
+        (redactions.length > 0
+          ? `\n\n:shield: Replaced ${redactions.length} sensitive value(s) with placeholders before analysis. ` +
+            `You can choose which ones to restore when reviewing the draft.`
+          : '')
       );
+      await this.showTemplateMenu(contextKey);
 
-      // Generate clarifying questions
-      const questions = await this.openaiService.generateClarifyingQuestions(ticket);
-      context.questionsAsked = questions;
-      context.stage = 'asking_questions';
-      this.contexts.set(contextKey, context);
+      // Offer to update an existing KBA instead of creating a duplicate
+      const existingPage = await this.confluenceService.findPageByJiraKey(ticket.key);
+      if (existingPage) {
+        context.existingPage = existingPage;
+        context.stage = 'confirming_existing';
+        await this.contexts.set(contextKey, context);
+        await this.askAboutExistingPage(contextKey);
+        return;
+      }
 
-      if (questions.length === 0) {
-        // No questions needed, proceed directly to generation
-        await this.generateKBA(contextKey);
+      // Then look for KBAs about the same problem from other tickets
+      const similarArticles = await this.similarityService.findSimilar(ticket);
+      if (similarArticles.length > 0) {
+        context.similarArticles = similarArticles;
+        context.stage = 'choosing_similar';
+        await this.contexts.set(contextKey, context);
+        await this.askAboutSimilarArticles(contextKey);
         return;
       }
 
-      // Ask questions
-      const questionText = questions.map((q, i) => `${i + 1}. ${q}`).join('\n');
-      await this.sendMessage(
-        channel,
-        threadTs,
-        `:question: I need some additional information to create a comprehensive KBA:\n\n${questionText}\n\n` +
-        `Please answer these questions (you can answer them in one message or separately).`
-      );
+      await this.askClarifyingQuestions(contextKey);
 
     } catch (error: any) {
       console.error('Error starting workflow:', error);
       await this.sendMessage(
         channel,
         threadTs,
-        `:x: Error: ${error.message}`
+        error instanceof NotFoundError && error.service === 'Jira'
+          ? `:x: ${error.message}. Check the key, and that the bot's Jira account can see the project.`
+          : `:x: Error: ${this.describeError(error)}`
       );
-      this.contexts.delete(contextKey);
+      await this.contexts.delete(contextKey);
     }
   }
 
   /**
-   * Handle user answers to questions
+   * Show which template will be used, with a menu to pick another
    */
-  async handleAnswer(
-    channel: string,
-    threadTs: string,
-    userId: string,
-    answer: string
-  ): Promise<void> {
-    const contextKey = `${channel}-${threadTs}`;
-    const context = this.contexts.get(contextKey);
-
-    if (!context || context.stage !== 'asking_questions') {
+  private async showTemplateMenu(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.jiraTicket) {
       return;
     }
 
-    // Store the answer (simple approach: concatenate all answers)
-    const answerKey = `answer_${Object.keys(context.userAnswers).length + 1}`;
-    context.userAnswers[answerKey] = answer;
-    this.contexts.set(contextKey, context);
+    const template = getTemplate(context.templateId);
+    const text = `:bookmark_tabs: Using the *${template.name}* template for this ${context.jiraTicket.issueType || 'ticket'}. ` +
+      `You can pick another one before the draft is generated.`;
+    const option = (id: string, name: string) => ({
+      text: {
+        type: 'plain_text' as const,
+        text: name
+      },
+      value: `${contextKey}|${id}`
+    });
 
-    // Check if we have enough answers
-    if (Object.keys(context.userAnswers).length >= context.questionsAsked.length) {
-      await this.sendMessage(
-        channel,
-        threadTs,
-        `:white_check_mark: Thank you! I have all the information I need.\n\n:robot_face: Generating KBA content...`
-      );
-      await this.generateKBA(contextKey);
-    } else {
-      const remaining = context.questionsAsked.length - Object.keys(context.userAnswers).length;
-      await this.sendMessage(
-        channel,
-        threadTs,
-        `:white_check_mark: Got it! ${remaining} more question(s) remaining.`
-      );
-    }
+    await this.app.client.chat.postMessage({
+      channel: context.channel,
+      thread_ts: context.threadTs,
+      text,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text
+          },
+          accessory: {
+            type: 'static_select',
+            action_id: 'select_template',
+            placeholder: {
+              type: 'plain_text',
+              text: 'Change template'
+            },
+            initial_option: option(template.id, template.name),
+            options: KBA_TEMPLATES.map(t => option(t.id, t.name))
+          }
+        }
+      ]
+    });
   }
 
   /**
-   * Generate the KBA content and images
+   * Switch templates, as long as the draft hasn't been generated yet
    */
-  private async generateKBA(contextKey: string): Promise<void> {
-    const context = this.contexts.get(contextKey);
-    if (!context || !context.jiraTicket) {
+  async changeTemplate(contextKey: string, templateId: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context) {
       return;
     }
 
-    try {
-      context.stage = 'generating';
-      this.contexts.set(contextKey, context);
-
-      const { channel, threadTs, jiraTicket, userAnswers } = context;
-
-      // Generate content
-      await this.sendMessage(channel, threadTs, ':pencil: Generating KBA content...');
-      const content = await this.openaiService.generateKBAContent(jiraTicket, userAnswers);
-
-      // Generate images
-      const stepsWithImages = content.steps.filter(s => s.imagePrompt);
-      if (stepsWithImages.length > 0) {
-        await this.sendMessage(
-          channel,
-          threadTs,
-          `:art: Generating ${stepsWithImages.length} screenshot mockup(s)... This may take a minute.`
-        );
-        const images = await this.openaiService.generateImages(content);
-
-        context.kbaDraft = {
-          jiraTicket,
-          content,
-          images
-        };
-      } else {
-        context.kbaDraft = {
-          jiraTicket,
-          content,
-          images: []
-        };
-      }
-
-      context.stage = 'review';
-      this.contexts.set(contextKey, context);
-
-      // Show preview
-      await this.showPreview(contextKey);
-
-    } catch (error: any) {
-      console.error('Error generating KBA:', error);
+    const template = getTemplate(templateId);
+    if (['generating', 'review', 'revising', 'publishing', 'complete'].includes(context.stage)) {
       await this.sendMessage(
         context.channel,
         context.threadTs,
-        `:x: Error generating KBA: ${error.message}`
+        `:warning: The draft has already been generated with the *${getTemplate(context.templateId).name}* template. ` +
+        `Start a new request to use *${template.name}*.`
       );
-      this.contexts.delete(contextKey);
+      return;
     }
+
+    context.templateId = template.id;
+    await this.contexts.set(contextKey, context);
+    await this.sendMessage(context.channel, context.threadTs, `:bookmark_tabs: Switched to the *${template.name}* template.`);
   }
 
   /**
-   * Show KBA preview in Slack
+   * Ask whether to update an existing KBA for the ticket
    */
-  private async showPreview(contextKey: string): Promise<void> {
-    const context = this.contexts.get(contextKey);
-    if (!context || !context.kbaDraft) {
+  private async askAboutExistingPage(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.existingPage) {
       return;
     }
 
-    const { channel, threadTs, kbaDraft } = context;
-    const { content, images } = kbaDraft;
-
-    // Create preview message
-    let previewText = `:page_facing_up: *KBA Preview*\n\n`;
-    previewText += `*Title:* ${content.title}\n\n`;
-    previewText += `*Problem:*\n${content.problem}\n\n`;
-    previewText += `*Solution:*\n${content.solution}\n\n`;
-    previewText += `*Steps:*\n`;
-
-    for (const step of content.steps) {
-      previewText += `${step.stepNumber}. ${step.description}\n`;
-      if (step.codeSnippet) {
-        previewText += `\`\`\`\n${step.codeSnippet}\n\`\`\`\n`;
-      }
-    }
-
-    if (content.additionalNotes) {
-      previewText += `\n*Additional Notes:*\n${content.additionalNotes}\n`;
-    }
-
-    previewText += `\n*Tags:* ${content.tags.join(', ')}\n`;
-    previewText += `\n*Generated Images:* ${images.length} screenshot mockup(s)\n`;
-
-    await this.sendMessage(channel, threadTs, previewText);
-
-    // Upload images to Slack for preview
-    for (const image of images) {
-      try {
-        await this.app.client.files.uploadV2({
-          channel_id: channel,
-          thread_ts: threadTs,
-          file: image.url,
-          title: `Step ${image.stepNumber} - ${image.osType === 'mac' ? 'macOS' : 'Windows'}`,
-          initial_comment: `Screenshot mockup for Step ${image.stepNumber} (${image.osType})`
-        });
-      } catch (error) {
-        console.error('Error uploading image preview:', error);
-      }
-    }
+    const { channel, threadTs, existingPage } = context;
+    const text = `:books: A KBA already exists for this ticket: *<${existingPage.url}|${existingPage.title}>*\n\n` +
+      `Would you like to update it in place, create a new page, or stop here?`;
 
-    // Ask for approval
     await this.app.client.chat.postMessage({
       channel,
       thread_ts: threadTs,
-      text: ':white_check_mark: KBA generated! Please review the content and images above.',
+      text,
       blocks: [
         {
           type: 'section',
           text: {
             type: 'mrkdwn',
-            text: ':white_check_mark: *KBA generated!* Please review the content and images above.'
+            text
           }
         },
         {
@@ -266,29 +360,29 @@ export class KBAGeneratorWorkflow {
               type: 'button',
               text: {
                 type: 'plain_text',
-                text: 'Approve & Publish'
+                text: 'Update Existing'
               },
               style: 'primary',
-              action_id: 'approve_kba',
+              action_id: 'existing_kba_update',
               value: contextKey
             },
             {
               type: 'button',
               text: {
                 type: 'plain_text',
-                text: 'Request Changes'
+                text: 'Create New Page'
               },
-              action_id: 'request_changes',
+              action_id: 'existing_kba_new',
               value: contextKey
             },
             {
               type: 'button',
               text: {
                 type: 'plain_text',
-                text: 'Cancel'
+                text: 'Abort'
               },
               style: 'danger',
-              action_id: 'cancel_kba',
+              action_id: 'existing_kba_abort',
               value: contextKey
             }
           ]
@@ -298,107 +392,2158 @@ export class KBAGeneratorWorkflow {
   }
 
   /**
-   * Handle approval and publish to Confluence
+   * Continue the workflow after the user decides what to do with an existing KBA
    */
-  async approveAndPublish(contextKey: string, userId: string): Promise<void> {
-    const context = this.contexts.get(contextKey);
-    if (!context || !context.kbaDraft) {
+  async resolveExistingPage(
+    contextKey: string,
+    choice: 'update' | 'new' | 'abort'
+  ): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || context.stage !== 'confirming_existing') {
       return;
     }
 
-    const { channel, threadTs, kbaDraft, jiraTicket } = context;
+    if (choice === 'abort') {
+      await this.cancelKBA(contextKey);
+      return;
+    }
 
-    try {
+    if (choice === 'update' && context.existingPage) {
+      context.targetPageId = context.existingPage.id;
       await this.sendMessage(
-        channel,
-        threadTs,
-        `:rocket: Publishing KBA to Confluence...`
+        context.channel,
+        context.threadTs,
+        `:pencil2: I'll update *${context.existingPage.title}* when the new draft is approved.`
       );
+    }
 
-      const pageUrl = await this.confluenceService.createKBAPage(
-        kbaDraft.content,
-        kbaDraft.images,
-        jiraTicket!.key
-      );
+    context.stage = 'analyzing';
+    await this.contexts.set(contextKey, context);
 
-      context.stage = 'complete';
-      this.contexts.set(contextKey, context);
+    try {
+      await this.askClarifyingQuestions(contextKey);
+    } catch (error: any) {
+      console.error('Error starting workflow:', error);
+      await this.sendMessage(context.channel, context.threadTs, `:x: Error: ${this.describeError(error)}`);
+      await this.contexts.delete(contextKey);
+    }
+  }
 
-      await this.sendMessage(
-        channel,
-        threadTs,
-        `:white_check_mark: *KBA successfully published!*\n\n` +
-        `View it here: ${pageUrl}\n\n` +
-        `Jira Ticket: ${process.env.JIRA_HOST}/browse/${jiraTicket!.key}`
-      );
+  /**
+   * Show KBAs that look like they cover the same problem
+   */
+  private async askAboutSimilarArticles(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.similarArticles) {
+      return;
+    }
 
-      // Clean up context after a delay
-      setTimeout(() => {
-        this.contexts.delete(contextKey);
-      }, 60000); // 1 minute
+    const { channel, threadTs, similarArticles } = context;
+    const text = `:mag_right: I found ${similarArticles.length} existing KBA(s) that may already cover this problem. ` +
+      `You can extend one of them with what this ticket adds, link the ticket to it without writing anything new, or create a new KBA.`;
 
-    } catch (error: any) {
-      console.error('Error publishing KBA:', error);
-      await this.sendMessage(
-        channel,
-        threadTs,
-        `:x: Error publishing to Confluence: ${error.message}`
+    const blocks: KnownBlock[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text
+        }
+      }
+    ];
+
+    for (const article of similarArticles) {
+      const excerpt = article.excerpt ? `\n>${article.excerpt.slice(0, 200).replace(/\n/g, ' ')}` : '';
+      blocks.push(
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*<${article.url}|${article.title}>* - ${Math.round(article.score * 100)}% similar${excerpt}`
+          }
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Extend This Article'
+              },
+              action_id: 'similar_kba_extend',
+              value: `${contextKey}|${article.id}`
+            },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Link Ticket Only'
+              },
+              action_id: 'similar_kba_link',
+              value: `${contextKey}|${article.id}`
+            }
+          ]
+        }
       );
     }
+
+    blocks.push({
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: 'Create New KBA'
+          },
+          style: 'primary',
+          action_id: 'similar_kba_new',
+          value: contextKey
+        }
+      ]
+    });
+
+    await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text,
+      blocks
+    });
   }
 
   /**
-   * Handle change requests
+   * Continue after the user decides what to do about similar KBAs
    */
-  async requestChanges(contextKey: string): Promise<void> {
-    const context = this.contexts.get(contextKey);
-    if (!context) {
+  async resolveSimilarArticle(
+    contextKey: string,
+    choice: 'extend' | 'link' | 'new',
+    userId: string,
+    pageId?: string
+  ): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || context.stage !== 'choosing_similar' || !context.jiraTicket) {
       return;
     }
 
-    await this.sendMessage(
-      context.channel,
-      context.threadTs,
-      ':pencil: Please describe what changes you\'d like me to make to the KBA.'
-    );
+    const { channel, threadTs, jiraTicket } = context;
+    const article = context.similarArticles?.find(a => a.id === pageId);
 
-    context.stage = 'asking_questions';
-    this.contexts.set(contextKey, context);
+    try {
+      if (choice === 'link' && article) {
+        await this.linkExistingArticle(context, article, userId);
+        await this.contexts.delete(contextKey);
+        return;
+      }
+
+      if (choice === 'extend' && article) {
+        context.targetPageId = article.id;
+        context.redactions = context.redactions || [];
+        context.baseArticle = this.redactionService.redactText(
+          await this.confluenceService.getPageText(article.id),
+          context.redactions
+        );
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:pencil2: I'll extend *${article.title}* with what ${jiraTicket.key} adds and update it when the draft is approved.`
+        );
+      }
+
+      context.stage = 'analyzing';
+      await this.contexts.set(contextKey, context);
+      await this.askClarifyingQuestions(contextKey);
+    } catch (error: any) {
+      console.error('Error resolving similar article:', error);
+      await this.sendMessage(channel, threadTs, `:x: Error: ${this.describeError(error)}`);
+      await this.contexts.delete(contextKey);
+    }
   }
 
   /**
-   * Cancel KBA generation
+   * Link the ticket to an article that already covers it. Nothing is
+   * published or approved, so only the remote link is added (and a
+   * comment saying so when write-back comments are on); no label.
    */
-  async cancelKBA(contextKey: string): Promise<void> {
-    const context = this.contexts.get(contextKey);
-    if (!context) {
+  private async linkExistingArticle(
+    context: ConversationContext,
+    article: SimilarArticle,
+    userId: string
+  ): Promise<void> {
+    const { channel, threadTs, jiraTicket } = context;
+    const ticketKey = jiraTicket!.key;
+
+    try {
+      await this.jiraService.addRemoteLink(ticketKey, article.url, article.title);
+    } catch (error: any) {
+      console.error('Failed to link existing article:', error.message);
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:warning: Could not link *${ticketKey}* to *${article.title}*: ${describeServiceError(error)}. No new KBA was created.`
+      );
       return;
     }
 
+    let commentNote = '';
+    if (process.env.JIRA_WRITEBACK_COMMENT === 'true') {
+      try {
+        const userName = await this.getUserName(userId);
+        await this.jiraService.addCommentOnce(
+          ticketKey,
+          `Covered by the existing knowledge base article "${article.title}" (linked by ${userName} via Slack):`,
+          article.url
+        );
+      } catch (error: any) {
+        console.error('Failed to comment on linked ticket:', error.message);
+        commentNote = `\n:warning: The comment on the ticket could not be added: ${describeServiceError(error)}`;
+      }
+    }
+
     await this.sendMessage(
-      context.channel,
-      context.threadTs,
-      ':x: KBA generation cancelled.'
+      channel,
+      threadTs,
+      `:link: Added a link to *<${article.url}|${article.title}>* on *${ticketKey}*. No new KBA was created.${commentNote}`
     );
-
-    this.contexts.delete(contextKey);
   }
 
   /**
-   * Send a message to Slack
+   * Generate clarifying questions and post them to the thread
    */
-  private async sendMessage(channel: string, threadTs: string, text: string): Promise<void> {
-    await this.app.client.chat.postMessage({
+  private async askClarifyingQuestions(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.jiraTicket) {
+      return;
+    }
+
+    const { channel, threadTs, jiraTicket } = context;
+
+    await this.sendMessage(
       channel,
-      thread_ts: threadTs,
+      threadTs,
+      ':brain: Analyzing ticket to determine what additional information is needed...'
+    );
+
+    // Generate clarifying questions
+    const usage: ModelUsage[] = [];
+    let questions: string[] | undefined;
+    try {
+      questions = await this.modelProvider.generateClarifyingQuestions(jiraTicket, u => usage.push(u));
+    } finally {
+      await this.audit(context, 'questions_asked', context.userId, {
+        ...usageFields(usage),
+        detail: questions ? `${questions.length} question(s)` : 'failed'
+      });
+    }
+    context.questionsAsked = questions;
+    context.stage = 'asking_questions';
+    await this.contexts.set(contextKey, context);
+
+    if (questions.length === 0) {
+      // No questions needed, proceed directly to generation
+      await this.generateKBA(contextKey);
+      return;
+    }
+
+    // Ask questions
+    const questionText = questions.map((q, i) => `${i + 1}. ${q}`).join('\n');
+    await this.sendMessage(
+      channel,
+      threadTs,
+      `:question: I need some additional information to create a comprehensive KBA:\n\n${questionText}\n\n` +
+      `Please answer these questions (you can answer them in one message or separately). ` +
+      `Number your answers (e.g. \`1) ...\`) to answer several at once, and reply \`skip\` for any you don't know.`
+    );
+  }
+
+  /**
+   * Handle user answers to questions
+   */
+  async handleAnswer(
+    channel: string,
+    threadTs: string,
+    userId: string,
+    answer: string
+  ): Promise<void> {
+    const contextKey = `${channel}-${threadTs}`;
+    const context = await this.contexts.get(contextKey);
+
+    if (!context || context.stage !== 'asking_questions') {
+      return;
+    }
+
+    // Match the reply to the question(s) it answers; numbers refer to the latest round of questions
+    const round = context.questionsAsked.slice(context.followUpStart || 0);
+    context.redactions = context.redactions || [];
+    const parsed = parseAnswers(
+      this.redactionService.redactText(answer, context.redactions),
+      round,
+      context.userAnswers
+    );
+    Object.assign(context.userAnswers, parsed);
+    await this.contexts.set(contextKey, context);
+    await this.audit(context, 'answer_received', userId, { detail: `${Object.keys(parsed).length} answer(s)` });
+
+    const remaining = unansweredQuestions(round, context.userAnswers);
+    if (remaining.length > 0) {
+      const remainingText = remaining
+        .map(q => `${round.indexOf(q) + 1}. ${q}`)
+        .join('\n');
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:white_check_mark: Got it! ${remaining.length} more question(s) remaining:\n\n${remainingText}`
+      );
+      return;
+    }
+
+    // One round of follow-ups for answers that are too vague to write from
+    if (!context.followUpAsked) {
+      context.followUpAsked = true;
+      await this.contexts.set(contextKey, context);
+
+      let followUps: string[] = [];
+      const usage: ModelUsage[] = [];
+      try {
+        followUps = await this.modelProvider.generateFollowUpQuestions(
+          context.jiraTicket!,
+          context.userAnswers,
+          u => usage.push(u)
+        );
+      } catch (error) {
+        console.error('Failed to generate follow-up questions:', error);
+      }
+      await this.audit(context, 'questions_asked', context.userId, {
+        ...usageFields(usage),
+        detail: `${followUps.length} follow-up question(s)`
+      });
+
+      if (followUps.length > 0) {
+        context.followUpStart = context.questionsAsked.length;
+        context.questionsAsked = [...context.questionsAsked, ...followUps];
+        await this.contexts.set(contextKey, context);
+
+        const followUpText = followUps.map((q, i) => `${i + 1}. ${q}`).join('\n');
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:mag: Thanks! A couple of answers need a bit more detail:\n\n${followUpText}\n\n` +
+          `Number your answers (e.g. \`1) ...\`) to answer several at once, and reply \`skip\` for any you don't know.`
+        );
+        return;
+      }
+    }
+
+    await this.sendMessage(
+      channel,
+      threadTs,
+      `:white_check_mark: Thank you! I have all the information I need.\n\n:robot_face: Generating KBA content...`
+    );
+    await this.generateKBA(contextKey);
+  }
+
+  /**
+   * Generate the KBA content and images
+   */
+  private async generateKBA(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.jiraTicket) {
+      return;
+    }
+
+    try {
+      context.stage = 'generating';
+      await this.contexts.set(contextKey, context);
+
+      const { channel, threadTs, jiraTicket, userAnswers, baseArticle, templateId } = context;
+
+      // Quotas may have filled up while questions were being answered
+      const quota = await this.quotaService.reserveGeneration(context.userId, channel);
+      if (!quota.allowed) {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:no_entry: ${quota.reason} Post the ticket again once the limit resets.`
+        );
+        await this.contexts.delete(contextKey);
+        return;
+      }
+
+      // Audited even when generation fails, so the tokens it used still count against quotas
+      const usage: ModelUsage[] = [];
+      let content: KBAContent | undefined;
+      try {
+        await this.sendMessage(channel, threadTs, ':pencil: Generating KBA content...');
+        content = await this.modelProvider.generateKBAContent(jiraTicket, userAnswers, {
+          baseArticle,
+          template: getTemplate(templateId),
+          onUsage: u => usage.push(u)
+        });
+      } finally {
+        await this.audit(context, 'generation', context.userId, {
+          ...usageFields(usage),
+          detail: `${getTemplate(templateId).name}, ${content ? `${content.steps.length} step(s)` : 'failed'}`
+        });
+        quota.release();
+      }
+
+      // Generate images, or skip them when they would go over quota
+      const stepsWithImages = content.steps.filter(s => s.imagePrompt);
+      let images: GeneratedImage[] = [];
+      let failedImages: ImageFailure[] = [];
+      if (stepsWithImages.length > 0) {
+        const imageQuota = await this.quotaService.reserveImages(context.userId, channel, plannedImages(content.steps));
+        if (imageQuota.allowed) {
+          try {
+            const progress = await this.startImageProgress(
+              channel,
+              threadTs,
+              `:art: Generating ${plannedImages(content.steps)} screenshot mockup(s) for ${stepsWithImages.length} step(s)...`
+            );
+            const imageUsage: ModelUsage[] = [];
+            ({ images, failures: failedImages } = await this.modelProvider.generateImages(
+              content,
+              u => imageUsage.push(u),
+              progress.onProgress
+            ));
+            await progress.finish();
+            images = await this.imageCache.cacheImages(images);
+            await this.audit(context, 'images_generated', context.userId, {
+              ...usageFields(imageUsage),
+              images: images.length,
+              detail: failedImages.length > 0 ? `${failedImages.length} image(s) failed` : undefined
+            });
+          } finally {
+            imageQuota.release();
+          }
+        } else {
+          await this.sendMessage(channel, threadTs, `:warning: ${imageQuota.reason}`);
+        }
+      }
+
+      context.kbaDraft = {
+        jiraTicket,
+        content,
+        images,
+        failedImages,
+        confluencePageId: context.targetPageId,
+        redactions: context.redactions,
+        requestedBy: context.userId
+      };
+
+      context.stage = 'review';
+      await this.contexts.set(contextKey, context);
+
+      // Show preview
+      await this.showPreview(contextKey);
+      await this.offerAttachments(contextKey);
+      await this.notifyReviewers(contextKey);
+
+    } catch (error: any) {
+      console.error('Error generating KBA:', error);
+      await this.sendMessage(
+        context.channel,
+        context.threadTs,
+        `:x: Error generating KBA: ${this.describeError(error)}`
+      );
+      await this.contexts.delete(contextKey);
+    }
+  }
+
+  /**
+   * Show KBA preview in Slack
+   */
+  private async showPreview(
+    contextKey: string,
+    heading: string = ':white_check_mark: *KBA generated!* Please review the content and images above.',
+    includeImages: boolean = true
+  ): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft } = context;
+    const { content, images } = kbaDraft;
+
+    // Create preview message, in the template's section order
+    const template = getTemplate(content.template);
+    let previewText = `:page_facing_up: *KBA Preview* (${template.name})\n\n`;
+    previewText += `*Title:* ${content.title}\n\n`;
+
+    for (const entry of templateLayout(template)) {
+      if (entry.key === 'steps') {
+        previewText += `*${entry.heading}:*\n`;
+        for (const step of content.steps) {
+          previewText += `${step.stepNumber}. ${step.description}\n`;
+          if (step.codeSnippet) {
+            previewText += `\`\`\`\n${step.codeSnippet}\n\`\`\`\n`;
+          }
+        }
+        previewText += '\n';
+        continue;
+      }
+
+      const text = sectionText(content, entry);
+      if (text) {
+        previewText += `*${entry.heading}:*\n${text}\n\n`;
+      }
+    }
+
+    previewText += `*Tags:* ${content.tags.join(', ')}\n`;
+    previewText += `\n*Generated Images:* ${images.length} screenshot mockup(s)\n`;
+    if (kbaDraft.failedImages && kbaDraft.failedImages.length > 0) {
+      previewText += `\n:warning: *Mockups that could not be generated:*\n${formatImageFailures(kbaDraft.failedImages)}\n`;
+    }
+    const uncached = this.uncachedImagesWarning(images);
+    if (uncached) {
+      previewText += `\n${uncached}\n`;
+    }
+
+    await this.sendMessage(channel, threadTs, previewText);
+
+    if (includeImages) {
+      await this.uploadImagePreviews(channel, threadTs, images);
+    }
+
+    await this.postImageActions(contextKey);
+    await this.showRedactions(contextKey);
+    await this.postReviewActions(contextKey, heading);
+  }
+
+  /**
+   * List the placeholders in the draft and let the reviewer pick which
+   * original values go back in when it is published
+   */
+  private async showRedactions(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft } = context;
+    const found = this.redactionService.redactionsInDraft(kbaDraft);
+    if (found.length === 0) {
+      return;
+    }
+
+    const restorable = found.filter(r => !r.secret).slice(0, MAX_RESTORABLE_REDACTIONS);
+    const secrets = found.filter(r => r.secret);
+    const option = (redaction: Redaction) => {
+      const label = `${redaction.placeholder} → ${redaction.value}`;
+      return {
+        text: {
+          type: 'plain_text' as const,
+          text: label.length > 75 ? `${label.slice(0, 74)}…` : label
+        },
+        value: redaction.placeholder
+      };
+    };
+
+    let text = `:shield: *Redacted values* (${found.length})\n` +
+      `Placeholders are published as "[redacted ...]" unless you tick them below.`;
+    if (secrets.length > 0) {
+      text += `\n${secrets.map(r => r.placeholder).join(', ')} look like secrets and are never restored.`;
+    }
+
+    const blocks: KnownBlock[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text
+        }
+      }
+    ];
+    if (restorable.length > 0) {
+      const restored = restorable.filter(r => r.restore);
+      blocks.push({
+        type: 'actions',
+        block_id: `restore_redactions|${contextKey}`,
+        elements: [
+          {
+            type: 'checkboxes',
+            action_id: 'restore_redactions',
+            options: restorable.map(option),
+            ...(restored.length > 0 ? { initial_options: restored.map(option) } : {})
+          }
+        ]
+      });
+    }
+
+    await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: `Redacted values (${found.length})`,
+      blocks
+    });
+  }
+
+  /**
+   * Why the user may not choose which values are restored, or null if they
+   * may. Only the requester and the space's approvers can.
+   */
+  async redactionRefusal(kbaDraft: KBADraft, userId: string): Promise<string | null> {
+    const policy = this.approvalPolicy.policyFor(this.spaceKey());
+    if (userId === kbaDraft.requestedBy || await this.approvalPolicy.mayApprove(policy, userId)) {
+      return null;
+    }
+    return `Only the requester or ${this.approvalPolicy.mentions(policy)} can choose which values are restored.`;
+  }
+
+  /**
+   * Record which placeholders the reviewer allowed to be restored. This
+   * changes what gets published, so earlier approvals no longer count.
+   */
+  async setRestoredRedactions(contextKey: string, placeholders: string[]): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+
+    const visible = this.redactionService.redactionsInDraft(context.kbaDraft).map(r => r.placeholder);
+    context.kbaDraft.redactions = (context.kbaDraft.redactions || []).map(redaction =>
+      visible.includes(redaction.placeholder)
+        ? { ...redaction, restore: !redaction.secret && placeholders.includes(redaction.placeholder) }
+        : redaction
+    );
+    context.kbaDraft.approvals = [];
+    await this.contexts.set(contextKey, context);
+  }
+
+  /**
+   * Upload screenshot mockups to the thread for review
+   */
+  private async uploadImagePreviews(
+    channel: string,
+    threadTs: string,
+    images: GeneratedImage[]
+  ): Promise<void> {
+    for (const image of images) {
+      if (image.source === 'upload') {
+        continue; // Already in the thread
+      }
+
+      try {
+        const file = await this.fetchImage(image);
+        if (!file) {
+          continue;
+        }
+
+        if (image.source === 'jira') {
+          await this.app.client.files.uploadV2({
+            channel_id: channel,
+            thread_ts: threadTs,
+            file,
+            filename: image.filename || `step-${image.stepNumber}.png`,
+            title: `Step ${image.stepNumber} - ${image.filename}`,
+            initial_comment: `Ticket screenshot for Step ${image.stepNumber}`
+          });
+          continue;
+        }
+
+        await this.app.client.files.uploadV2({
+          channel_id: channel,
+          thread_ts: threadTs,
+          file,
+          filename: imageFilename(image),
+          title: `Step ${image.stepNumber} - ${imageLabel(image)}`,
+          initial_comment: `Screenshot mockup for Step ${image.stepNumber} (${image.osType})`
+        });
+      } catch (error) {
+        console.error('Error uploading image preview:', error);
+      }
+    }
+  }
+
+  /**
+   * Offer the ticket's image attachments as step screenshots
+   */
+  private async offerAttachments(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || !context.jiraTicket) {
+      return;
+    }
+
+    const { channel, threadTs, jiraTicket, kbaDraft } = context;
+    const candidates = (jiraTicket.attachments || [])
+      .filter(attachment => this.jiraService.isImageAttachment(attachment))
+      .slice(0, MAX_OFFERED_ATTACHMENTS);
+
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const blocks: KnownBlock[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `:paperclip: *${jiraTicket.key}* has ${candidates.length} image attachment(s). ` +
+            `Assign any of them to a step to use the real screenshot in the KBA.`
+        }
+      }
+    ];
+
+    for (const attachment of candidates) {
+      try {
+        await this.app.client.files.uploadV2({
+          channel_id: channel,
+          thread_ts: threadTs,
+          file: await this.jiraService.downloadAttachment(attachment.contentUrl),
+          filename: attachment.filename,
+          title: attachment.filename
+        });
+      } catch (error) {
+        console.error(`Error uploading attachment ${attachment.filename}:`, error);
+      }
+
+      blocks.push({
+        type: 'section',
+        block_id: `attachment_${attachment.id}`,
+        text: { type: 'mrkdwn', text: `:frame_with_picture: ${attachment.filename}` },
+        accessory: {
+          type: 'static_select',
+          action_id: 'assign_attachment',
+          placeholder: { type: 'plain_text', text: 'Use for step...' },
+          options: [
+            ...kbaDraft.content.steps.slice(0, 99).map(step => ({
+              text: { type: 'plain_text' as const, text: `Step ${step.stepNumber}` },
+              value: `${contextKey}|${attachment.id}|${step.stepNumber}`
+            })),
+            {
+              text: { type: 'plain_text', text: "Don't use" },
+              value: `${contextKey}|${attachment.id}|0`
+            }
+          ]
+        }
+      });
+    }
+
+    await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: `${jiraTicket.key} has image attachments that can be used as step screenshots.`,
+      blocks
+    });
+  }
+
+  /**
+   * Use a ticket attachment as the screenshot for a step (0 removes it)
+   */
+  async assignAttachment(contextKey: string, attachmentId: string, stepNumber: number): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || !context.jiraTicket) {
+      return;
+    }
+
+    const attachment = (context.jiraTicket.attachments || []).find(a => a.id === attachmentId);
+    if (!attachment) {
+      return;
+    }
+
+    const { kbaDraft } = context;
+    const images = kbaDraft.images.filter(image => image.attachmentId !== attachmentId);
+
+    if (stepNumber > 0) {
+      images.push({
+        stepNumber,
+        url: attachment.contentUrl,
+        prompt: attachment.filename,
+        source: 'jira',
+        attachmentId: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType
+      });
+    }
+
+    kbaDraft.images = images.sort((a, b) => a.stepNumber - b.stepNumber);
+    // A real screenshot makes up for a mockup that failed
+    kbaDraft.failedImages = kbaDraft.failedImages?.filter(failure => failure.stepNumber !== stepNumber);
+    kbaDraft.approvals = [];
+    await this.contexts.set(contextKey, context);
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      stepNumber > 0
+        ? `:frame_with_picture: Using *${attachment.filename}* as the screenshot for Step ${stepNumber}.`
+        : `:wastebasket: *${attachment.filename}* won't be used in the KBA.`
+    );
+    await this.postImageActions(contextKey, true);
+  }
+
+  /**
+   * Post the per-image menus, or with `refresh` update the last posted
+   * message in place so the thread doesn't fill up with copies
+   */
+  private async postImageActions(contextKey: string, refresh: boolean = false): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft } = context;
+    const failures = kbaDraft.failedImages || [];
+    if (!refresh && kbaDraft.images.length === 0 && failures.length === 0) {
+      return;
+    }
+
+    const option = (text: string, value: string) => ({
+      text: { type: 'plain_text' as const, text },
+      value
+    });
+    const rows: { stepNumber: number; name: string; text: string; options: ReturnType<typeof option>[] }[] = [];
+
+    for (const image of kbaDraft.images) {
+      const options = [];
+      let text = `*Step ${image.stepNumber}* - ${imageLabel(image)}`;
+      if (image.source === 'jira') {
+        text += ` (${image.filename} from ${kbaDraft.jiraTicket.key})`;
+      } else if (image.source === 'upload') {
+        text += ` (${image.filename || 'uploaded'})`;
+      } else {
+        const other = image.osType === 'mac' ? 'windows' : 'mac';
+        options.push(option('Regenerate', 'regenerate'), option('Regenerate with new prompt…', 'prompt'));
+        if (!kbaDraft.images.some(i => i.stepNumber === image.stepNumber && i.source !== 'jira' && i.source !== 'upload' && i.osType === other)) {
+          options.push(option(`Switch to ${osLabel(other)}`, 'switch'));
+        }
+      }
+      options.push(option('Replace with an upload', 'replace'), option('Remove', 'remove'));
+      rows.push({ stepNumber: image.stepNumber, name: imageFilename(image), text, options });
+    }
+
+    for (const failure of failures) {
+      rows.push({
+        stepNumber: failure.stepNumber,
+        name: failedImageName(failure),
+        text: `*Step ${failure.stepNumber}* - ${osLabel(failure.osType)} :x: not generated`,
+        options: [
+          option('Retry', 'regenerate'),
+          option('Retry with new prompt…', 'prompt'),
+          option('Replace with an upload', 'replace'),
+          option('Remove', 'remove')
+        ]
+      });
+    }
+    rows.sort((a, b) => a.stepNumber - b.stepNumber);
+
+    const text = ':frame_with_picture: *Screenshots* - use the menu next to an image to change it. ' +
+      'You can also upload a screenshot to this thread and pick the step it belongs to.';
+    const blocks: KnownBlock[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: rows.length > 0 ? text : ':frame_with_picture: *Screenshots* - the draft has no screenshots left. ' +
+            'Upload one to this thread to add it to a step.'
+        }
+      },
+      ...rows.slice(0, MAX_IMAGE_ACTIONS).map((row): KnownBlock => ({
+        type: 'section',
+        block_id: `image_action|${contextKey}|${row.name}`,
+        text: { type: 'mrkdwn', text: row.text },
+        accessory: {
+          type: 'overflow',
+          action_id: 'image_action',
+          options: row.options
+        }
+      }))
+    ];
+    if (rows.length > MAX_IMAGE_ACTIONS) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `${rows.length - MAX_IMAGE_ACTIONS} more image(s) are not listed.` }]
+      });
+    }
+
+    if (refresh && context.imageActionsTs) {
+      try {
+        await this.app.client.chat.update({ channel, ts: context.imageActionsTs, text, blocks });
+        return;
+      } catch (error: any) {
+        console.error('Failed to update image actions, posting them again:', error.message);
+      }
+    }
+
+    const message = await this.app.client.chat.postMessage({ channel, thread_ts: threadTs, text, blocks });
+    context.imageActionsTs = message.ts;
+    await this.contexts.set(contextKey, context);
+  }
+
+  /**
+   * The image or failed mockup a menu refers to, by attachment filename
+   */
+  private findImageTarget(
+    kbaDraft: KBADraft,
+    imageName: string
+  ): { stepNumber: number; osType?: 'mac' | 'windows'; label: string } | undefined {
+    const image = kbaDraft.images.find(i => imageFilename(i) === imageName);
+    if (image) {
+      return { stepNumber: image.stepNumber, osType: image.osType, label: imageLabel(image) };
+    }
+    const failure = kbaDraft.failedImages?.find(f => failedImageName(f) === imageName);
+    if (failure) {
+      return { stepNumber: failure.stepNumber, osType: failure.osType, label: osLabel(failure.osType) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Generate a new mockup for one image, optionally with an edited prompt
+   * or for the other OS. Only that image changes; the text is left alone.
+   */
+  async regenerateImage(
+    contextKey: string,
+    userId: string,
+    imageName: string,
+    change: { prompt?: string; switchOS?: boolean } = {}
+  ): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft } = context;
+    const target = this.findImageTarget(kbaDraft, imageName);
+    const step = kbaDraft.content.steps.find(s => s.stepNumber === target?.stepNumber);
+    if (!target || !step) {
+      await this.sendMessage(channel, threadTs, ':warning: That image is no longer part of the draft.');
+      return;
+    }
+
+    const currentOS = target.osType || (step.osType === 'windows' ? 'windows' : 'mac');
+    const osType = change.switchOS ? (currentOS === 'mac' ? 'windows' : 'mac') : currentOS;
+    const prompt = change.prompt || step.imagePrompt;
+    if (!prompt) {
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:warning: Step ${step.stepNumber} has no image prompt. Choose "Regenerate with new prompt…" to write one.`
+      );
+      return;
+    }
+
+    try {
+      const quota = await this.quotaService.reserveImages(context.userId, channel, 1);
+      if (!quota.allowed) {
+        await this.sendMessage(channel, threadTs, `:no_entry: ${quota.reason}`);
+        return;
+      }
+
+      let result: ImageGenerationResult;
+      let images: GeneratedImage[];
+      try {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:art: ${change.switchOS ? 'Generating' : 'Regenerating'} the ${osLabel(osType)} mockup for Step ${step.stepNumber}...`
+        );
+        const usage: ModelUsage[] = [];
+        result = await this.modelProvider.generateImages(
+          { ...kbaDraft.content, steps: [{ ...step, imagePrompt: prompt, osType }] },
+          u => usage.push(u)
+        );
+        images = await this.imageCache.cacheImages(result.images);
+        await this.audit(context, 'images_generated', userId, {
+          ...usageFields(usage),
+          images: images.length,
+          detail: `Step ${step.stepNumber} ${osLabel(osType)}`
+        });
+      } finally {
+        quota.release();
+      }
+
+      if (images.length === 0) {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:x: Could not generate the Step ${step.stepNumber} mockup: ` +
+            `${result.failures[0]?.error || 'no image was returned'}. The draft is unchanged.`
+        );
+        return;
+      }
+
+      // Other images may have changed while this one was generating
+      const latest = await this.contexts.get(contextKey);
+      if (!latest || !latest.kbaDraft || latest.stage !== 'review') {
+        return;
+      }
+      const image = images[0];
+      const replaced = new Set([imageName, imageFilename(image)]);
+      latest.kbaDraft.images = [...latest.kbaDraft.images.filter(i => !replaced.has(imageFilename(i))), image]
+        .sort((a, b) => a.stepNumber - b.stepNumber);
+      latest.kbaDraft.failedImages = latest.kbaDraft.failedImages?.filter(f => !replaced.has(failedImageName(f)));
+      latest.kbaDraft.approvals = [];
+      await this.contexts.set(contextKey, latest);
+
+      await this.uploadImagePreviews(channel, threadTs, [image]);
+      const uncached = this.uncachedImagesWarning([image]);
+      if (uncached) {
+        await this.sendMessage(channel, threadTs, uncached);
+      }
+      await this.postImageActions(contextKey, true);
+    } catch (error: any) {
+      console.error('Error regenerating image:', error);
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:x: Error regenerating the Step ${step.stepNumber} mockup: ${this.describeError(error)}`
+      );
+    }
+  }
+
+  /**
+   * Open the modal for regenerating a mockup with an edited prompt
+   */
+  async openImagePromptModal(contextKey: string, imageName: string, triggerId: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const target = this.findImageTarget(context.kbaDraft, imageName);
+    if (!target) {
+      return;
+    }
+
+    const image = context.kbaDraft.images.find(i => imageFilename(i) === imageName);
+    const step = context.kbaDraft.content.steps.find(s => s.stepNumber === target.stepNumber);
+    await this.app.client.views.open({
+      trigger_id: triggerId,
+      view: buildImagePromptModal(
+        // The image's own prompt already has the style details, which regenerating adds again
+        { contextKey, imageName, prompt: image?.basePrompt || step?.imagePrompt || '' },
+        `*Step ${target.stepNumber}* (${target.label}): ${step?.description || ''}`
+      )
+    });
+  }
+
+  /**
+   * Regenerate a mockup with the prompt submitted in the modal
+   */
+  async applyImagePrompt(view: ViewOutput, userId: string): Promise<void> {
+    const state = readImagePromptModal(view);
+    await this.regenerateImage(state.contextKey, userId, state.imageName, { prompt: state.prompt });
+  }
+
+  /**
+   * Remove one image or failed mockup from the draft
+   */
+  async removeImage(contextKey: string, imageName: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const { kbaDraft } = context;
+    const target = this.findImageTarget(kbaDraft, imageName);
+    if (!target) {
+      return;
+    }
+
+    kbaDraft.images = kbaDraft.images.filter(image => imageFilename(image) !== imageName);
+    kbaDraft.failedImages = kbaDraft.failedImages?.filter(failure => failedImageName(failure) !== imageName);
+    kbaDraft.approvals = [];
+    await this.contexts.set(contextKey, context);
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      `:wastebasket: Removed the ${target.label} image from Step ${target.stepNumber}.`
+    );
+    await this.postImageActions(contextKey, true);
+  }
+
+  /**
+   * Remember which image the reviewer's next upload replaces
+   */
+  async requestImageUpload(contextKey: string, imageName: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const target = this.findImageTarget(context.kbaDraft, imageName);
+    if (!target) {
+      return;
+    }
+
+    context.uploadTarget = imageName;
+    await this.contexts.set(contextKey, context);
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      `:outbox_tray: Upload the screenshot to this thread and it will replace the ${target.label} image for Step ${target.stepNumber}.`
+    );
+  }
+
+  /**
+   * Ask which step an image uploaded to a KBA thread belongs to
+   */
+  async offerUpload(channel: string, fileId: string): Promise<void> {
+    let file;
+    try {
+      file = (await this.app.client.files.info({ file: fileId })).file;
+    } catch (error: any) {
+      console.error(`Failed to look up uploaded file ${fileId}:`, error.message);
+      return;
+    }
+    if (!file || !file.mimetype?.startsWith('image/')) {
+      return;
+    }
+
+    // Only uploads into a thread with a draft under review are offered
+    const shares = [...(file.shares?.public?.[channel] || []), ...(file.shares?.private?.[channel] || [])];
+    let contextKey: string | undefined;
+    let context: ConversationContext | undefined;
+    for (const share of shares.filter(s => s.thread_ts)) {
+      const key = `${channel}-${share.thread_ts}`;
+      const candidate = await this.contexts.get(key);
+      if (candidate && candidate.kbaDraft && candidate.stage === 'review') {
+        contextKey = key;
+        context = candidate;
+        break;
+      }
+    }
+    if (!contextKey || !context || !context.kbaDraft) {
+      return;
+    }
+
+    const name = file.name || file.title || 'the screenshot';
+    const target = context.uploadTarget ? this.findImageTarget(context.kbaDraft, context.uploadTarget) : undefined;
+    const options = [
+      ...context.kbaDraft.content.steps.slice(0, 99).map(step => ({
+        text: { type: 'plain_text' as const, text: `Step ${step.stepNumber}` },
+        value: `${contextKey}|${fileId}|${step.stepNumber}`
+      })),
+      {
+        text: { type: 'plain_text' as const, text: "Don't use" },
+        value: `${contextKey}|${fileId}|0`
+      }
+    ];
+    const initial = options.find(o => target && o.value === `${contextKey}|${fileId}|${target.stepNumber}`);
+
+    await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: context.threadTs,
+      text: `Which step is ${name} a screenshot of?`,
+      blocks: [
+        {
+          type: 'section',
+          block_id: `upload_${fileId}`,
+          text: {
+            type: 'mrkdwn',
+            text: `:frame_with_picture: Which step is *${name}* a screenshot of?` +
+              (target ? ` Pick Step ${target.stepNumber} to replace its ${target.label} image.` : '')
+          },
+          accessory: {
+            type: 'static_select',
+            action_id: 'assign_upload',
+            placeholder: { type: 'plain_text', text: 'Use for step...' },
+            options,
+            ...(initial ? { initial_option: initial } : {})
+          }
+        }
+      ]
+    });
+  }
+
+  /**
+   * Use a screenshot uploaded to the thread for a step (0 removes it). It
+   * replaces the image the reviewer asked to replace, or else the step's
+   * mockups; ticket attachments stay.
+   */
+  async assignUpload(contextKey: string, fileId: string, stepNumber: number): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft } = context;
+    let file;
+    let cachedFile: string | undefined;
+    try {
+      file = (await this.app.client.files.info({ file: fileId })).file;
+      if (!file || !file.url_private_download) {
+        throw new Error('the file is no longer available');
+      }
+      if (stepNumber > 0) {
+        const response = await axios.get(file.url_private_download, {
+          responseType: 'arraybuffer',
+          headers: { Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}` }
+        });
+        cachedFile = await this.imageCache.store(Buffer.from(response.data), file.mimetype);
+      }
+    } catch (error: any) {
+      console.error(`Failed to download uploaded file ${fileId}:`, error.message);
+      await this.sendMessage(channel, threadTs, `:x: Could not download the screenshot from Slack: ${error.message}`);
+      return;
+    }
+
+    const name = file.name || file.title || 'The screenshot';
+    const targeted = context.uploadTarget &&
+      this.findImageTarget(kbaDraft, context.uploadTarget)?.stepNumber === stepNumber
+      ? context.uploadTarget
+      : undefined;
+    const images = kbaDraft.images
+      .filter(image => image.slackFileId !== fileId)
+      .filter(image => stepNumber === 0 || (targeted
+        ? imageFilename(image) !== targeted
+        : image.stepNumber !== stepNumber || image.source === 'jira'));
+
+    if (stepNumber > 0) {
+      images.push({
+        stepNumber,
+        url: file.url_private || '',
+        prompt: name,
+        source: 'upload',
+        cachedFile,
+        slackFileId: fileId,
+        filename: file.name,
+        mimeType: file.mimetype
+      });
+      if (targeted) {
+        context.uploadTarget = undefined;
+      }
+    }
+
+    kbaDraft.images = images.sort((a, b) => a.stepNumber - b.stepNumber);
+    kbaDraft.failedImages = kbaDraft.failedImages?.filter(failure =>
+      stepNumber === 0 || (targeted ? failedImageName(failure) !== targeted : failure.stepNumber !== stepNumber)
+    );
+    kbaDraft.approvals = [];
+    await this.contexts.set(contextKey, context);
+
+    await this.sendMessage(
+      channel,
+      threadTs,
+      stepNumber > 0
+        ? `:frame_with_picture: Using *${name}* as the screenshot for Step ${stepNumber}.`
+        : `:wastebasket: *${name}* won't be used in the KBA.`
+    );
+    await this.postImageActions(contextKey, true);
+  }
+
+  /**
+   * Load image bytes for upload from the image cache, fetching ticket
+   * attachments through Jira
+   */
+  private async loadImage(image: GeneratedImage): Promise<Buffer | null> {
+    if (image.source === 'jira') {
+      return this.jiraService.downloadAttachment(image.url);
+    }
+    if (image.cachedFile) {
+      return this.imageCache.read(image.cachedFile);
+    }
+    return null;
+  }
+
+  /**
+   * Warning for mockups that only exist at their expiring URL, or null
+   */
+  private uncachedImagesWarning(images: GeneratedImage[]): string | null {
+    const uncached = images.filter(image => image.source !== 'jira' && !image.cachedFile);
+    if (uncached.length === 0) {
+      return null;
+    }
+    return `:warning: ${uncached.length} mockup(s) could not be saved ` +
+      `(${uncached.map(image => `Step ${image.stepNumber} ${imageLabel(image)}`).join(', ')}). ` +
+      `Their links expire after about an hour, so they will be missing if the draft is published later.`;
+  }
+
+  /**
+   * Post the Approve / Request Changes / Cancel buttons
+   */
+  private async postReviewActions(contextKey: string, text: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context) {
+      return;
+    }
+
+    await this.app.client.chat.postMessage({
+      channel: context.channel,
+      thread_ts: context.threadTs,
+      text,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text
+          }
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Approve & Publish'
+              },
+              style: 'primary',
+              action_id: 'approve_kba',
+              value: contextKey
+            },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Edit'
+              },
+              action_id: 'edit_kba',
+              value: contextKey
+            },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Request Changes'
+              },
+              action_id: 'request_changes',
+              value: contextKey
+            },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Cancel'
+              },
+              style: 'danger',
+              action_id: 'cancel_kba',
+              value: contextKey
+            },
+            {
+              type: 'static_select',
+              action_id: 'export_kba',
+              placeholder: {
+                type: 'plain_text',
+                text: 'Export...'
+              },
+              options: (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+                text: {
+                  type: 'plain_text',
+                  text: EXPORT_FORMATS[format].label
+                },
+                value: `${contextKey}|${format}`
+              }))
+            }
+          ]
+        }
+      ]
+    });
+  }
+
+  /**
+   * Render the draft locally and upload it to the thread
+   */
+  async exportDraft(contextKey: string, format: ExportFormat): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+
+    const { channel, threadTs } = context;
+    const kbaDraft = this.redactionService.restoreDraft(context.kbaDraft);
+    const { label, extension } = EXPORT_FORMATS[format];
+    const filename = `${kbaDraft.jiraTicket.key}-kba.${extension}`;
+
+    try {
+      const images = new Map<GeneratedImage, Buffer>();
+      for (const image of kbaDraft.images) {
+        const data = await this.fetchImage(image);
+        if (data) {
+          images.set(image, data);
+        }
+      }
+
+      const files: { file: Buffer; filename: string; title: string }[] = [];
+      if (format === 'markdown') {
+        files.push({ file: Buffer.from(renderMarkdown(kbaDraft), 'utf8'), filename, title: kbaDraft.content.title });
+        // The Markdown references screenshots by filename, so ship them alongside
+        for (const [image, data] of images) {
+          files.push({ file: data, filename: imageFilename(image), title: imageFilename(image) });
+        }
+      } else if (format === 'html') {
+        files.push({ file: Buffer.from(renderHTML(kbaDraft, images), 'utf8'), filename, title: kbaDraft.content.title });
+      } else {
+        files.push({ file: await renderPDF(kbaDraft, images), filename, title: kbaDraft.content.title });
+      }
+
+      const missing = kbaDraft.images.length - images.size;
+      await this.app.client.files.uploadV2({
+        channel_id: channel,
+        thread_ts: threadTs,
+        initial_comment: `:outbox_tray: ${label} export of *${kbaDraft.content.title}*` +
+          (missing > 0 ? `\n:warning: ${missing} screenshot(s) could not be downloaded and are missing from the export.` : ''),
+        file_uploads: files
+      });
+    } catch (error: any) {
+      console.error('Error exporting KBA:', error);
+      await this.sendMessage(channel, threadTs, `:x: Error exporting the KBA as ${label}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Image bytes for a screenshot, or null if they can't be fetched
+   */
+  private async fetchImage(image: GeneratedImage): Promise<Buffer | null> {
+    try {
+      const loaded = await this.loadImage(image);
+      if (loaded) {
+        return loaded;
+      }
+      const response = await axios.get(image.url, { responseType: 'arraybuffer' });
+      return Buffer.from(response.data);
+    } catch (error: any) {
+      console.error(`Failed to download image for step ${image.stepNumber}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Handle approval and publish to the channel's destinations
+   */
+  async approveAndPublish(contextKey: string, userId: string): Promise<void> {
+    // Claimed before the first await, so a second click meanwhile can't approve or publish again
+    if (this.approving.has(contextKey)) {
+      await this.refuseApproval(contextKey, userId, 'Another approval of this draft is being handled right now.');
+      return;
+    }
+    this.approving.add(contextKey);
+
+    try {
+      await this.recordApproval(contextKey, userId);
+    } finally {
+      this.approving.delete(contextKey);
+    }
+  }
+
+  private async recordApproval(contextKey: string, userId: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft) {
+      return;
+    }
+    if (context.stage !== 'review') {
+      // An old Approve button, clicked while the draft is being revised or after it was published
+      await this.refuseApproval(contextKey, userId, 'This draft is not waiting for approval right now.');
+      return;
+    }
+
+    const { channel, threadTs, kbaDraft, jiraTicket } = context;
+
+    try {
+      const remaining = this.addApproval(kbaDraft, userId);
+      await this.contexts.set(contextKey, context);
+      await this.audit(context, 'approval', userId, {
+        detail: remaining > 0 ? `${remaining} more approval(s) needed` : 'fully approved'
+      });
+
+      if (remaining > 0) {
+        const mentions = this.reviewerMentions();
+        await this.postReviewActions(
+          contextKey,
+          `:ballot_box_with_check: <@${userId}> approved this draft. ` +
+          `${remaining} more approval(s) needed${mentions ? ` from ${mentions}` : ''} before it is published.`
+        );
+        return;
+      }
+
+      // Edits, revisions and other approvals are refused until publishing is done
+      context.stage = 'publishing';
+      await this.contexts.set(contextKey, context);
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:rocket: Publishing KBA to ${publishTargets(channel).join(', ')}...`
+      );
+
+      const updating = !!kbaDraft.confluencePageId;
+      const { results, failures, writeBackErrors } = await this.publishDraft(kbaDraft, userId, channel);
+      if (results.length > 0) {
+        await this.audit(context, 'published', userId, {
+          detail: results.map(result => `${result.publisher}: ${result.url || result.detail}`).join('; ')
+        });
+      }
+
+      if (results.length > 0) {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:white_check_mark: *KBA successfully ${updating ? 'updated' : 'published'}!*\n\n` +
+          `${this.formatPublishResults(results)}\n\n` +
+          `Jira Ticket: ${process.env.JIRA_HOST}/browse/${jiraTicket!.key}`
+        );
+      }
+
+      if (writeBackErrors.length > 0) {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:warning: The KBA is published, but updating the Jira ticket partly failed:\n` +
+          writeBackErrors.map(e => `• ${e}`).join('\n')
+        );
+      }
+
+      if (failures.length > 0) {
+        // Keep the draft so the failed destinations can be retried
+        context.stage = 'review';
+        await this.contexts.set(contextKey, context);
+        await this.postReviewActions(
+          contextKey,
+          `:warning: Publishing failed for ${failures.length} destination(s):\n` +
+          failures.map(f => `• *${f.publisher}*: ${f.error}`).join('\n') +
+          (results.length > 0 ? '\n\nApprove again to retry only the failed destinations.' : '')
+        );
+        return;
+      }
+
+      context.stage = 'complete';
+      await this.contexts.set(contextKey, context);
+
+      // Clean up context after a delay
+      setTimeout(() => {
+        this.contexts.delete(contextKey).catch(error => {
+          console.error('Failed to clean up context:', error);
+        });
+      }, 60000); // 1 minute
+
+    } catch (error: any) {
+      console.error('Error publishing KBA:', error);
+      if (context.stage === 'publishing') {
+        context.stage = 'review';
+        await this.contexts.set(contextKey, context);
+      }
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:x: Error publishing KBA: ${describeServiceError(error)}`
+      );
+    }
+  }
+
+  private async refuseApproval(contextKey: string, userId: string, reason: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context) {
+      return;
+    }
+
+    await this.app.client.chat.postEphemeral({
+      channel: context.channel,
+      thread_ts: context.threadTs,
+      user: userId,
+      text: `:no_entry: ${reason}`
+    });
+  }
+
+  /**
+   * Why the user may not approve the draft under the space's policy, or
+   * null if they may. Once a draft has all its approvals, a publish that
+   * partly failed can be retried by any eligible approver.
+   */
+  async approvalRefusal(kbaDraft: KBADraft, userId: string): Promise<string | null> {
+    const policy = this.approvalPolicy.policyFor(this.spaceKey());
+    const approvals = kbaDraft.approvals || [];
+    return this.approvalPolicy.refusalReason(
+      policy,
+      userId,
+      kbaDraft.requestedBy,
+      approvals.length >= policy.requiredApprovals ? [] : approvals
+    );
+  }
+
+  /**
+   * Count the user's approval unless the draft already has enough.
+   * Returns how many approvals are still missing.
+   */
+  addApproval(kbaDraft: KBADraft, userId: string): number {
+    const { requiredApprovals } = this.approvalPolicy.policyFor(this.spaceKey());
+    const approvals = kbaDraft.approvals || [];
+    if (approvals.length < requiredApprovals && !approvals.includes(userId)) {
+      kbaDraft.approvals = [...approvals, userId];
+    }
+    return Math.max(0, requiredApprovals - (kbaDraft.approvals || []).length);
+  }
+
+  /**
+   * Mentions for the space's approvers, or an empty string if anyone may approve
+   */
+  reviewerMentions(): string {
+    return this.approvalPolicy.mentions(this.approvalPolicy.policyFor(this.spaceKey()));
+  }
+
+  /**
+   * Let the space's approvers know a draft is waiting for them
+   */
+  private async notifyReviewers(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || context.stage !== 'review') {
+      return;
+    }
+
+    const { requiredApprovals } = this.approvalPolicy.policyFor(this.spaceKey());
+    const mentions = this.reviewerMentions();
+    if (!mentions && requiredApprovals === 1) {
+      return;
+    }
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      `:eyes: ${mentions ? `${mentions}: this` : 'This'} draft is ready for review` +
+      (requiredApprovals > 1 ? ` and needs ${requiredApprovals} approvals before it is published.` : '.')
+    );
+  }
+
+  private spaceKey(): string {
+    return this.confluenceService.getSpaceKey();
+  }
+
+  /**
+   * Publish a draft to each of the channel's destinations it hasn't reached
+   * yet, then record it on the Jira ticket. Per-destination and write-back
+   * failures are returned, never thrown, so they can't undo what succeeded.
+   * Updates `publishedTo` and `confluencePageId` on the draft.
+   */
+  async publishDraft(
+    kbaDraft: KBADraft,
+    userId: string,
+    channel: string
+  ): Promise<{ results: PublishResult[]; failures: { publisher: string; error: string }[]; writeBackErrors: string[] }> {
+    const { jiraTicket } = kbaDraft;
+    const approverNames = await Promise.all((kbaDraft.approvals?.length ? kbaDraft.approvals : [userId]).map(id => this.getUserName(id)));
+    const userName = approverNames.join(', ');
+    const requesterName = kbaDraft.requestedBy ? await this.getUserName(kbaDraft.requestedBy) : undefined;
+    const publishable = this.redactionService.restoreDraft(kbaDraft);
+    const results: PublishResult[] = [];
+    const failures: { publisher: string; error: string }[] = [];
+
+    const targets = publishTargets(channel).filter(name => !(kbaDraft.publishedTo || []).includes(name));
+    for (const name of targets) {
+      const publisher = this.publishers.get(name);
+      try {
+        if (!publisher) {
+          throw new Error('Publisher is not configured');
+        }
+        const result = await publisher.publish(publishable, {
+          approverName: userName,
+          requesterName,
+          loadImage: image => this.fetchImage(image),
+          assertNoSecrets: text => this.redactionService.assertNoSecrets(text)
+        });
+        results.push(result);
+        kbaDraft.publishedTo = [...(kbaDraft.publishedTo || []), name];
+        if (result.confluencePageId) {
+          kbaDraft.confluencePageId = result.confluencePageId;
+        }
+      } catch (error: any) {
+        console.error(`Error publishing KBA to ${name}:`, error);
+        failures.push({ publisher: name, error: describeServiceError(error) });
+      }
+    }
+
+    // Link the ticket to the first destination readers can open
+    const linked = results.find(result => result.url);
+    const writeBackErrors = linked
+      ? await this.writeBackToJira(jiraTicket.key, linked.url!, publishable.content.title, userName)
+      : [];
+
+    return { results, failures, writeBackErrors };
+  }
+
+  /**
+   * One line per destination, for success messages
+   */
+  formatPublishResults(results: PublishResult[]): string {
+    return results
+      .map(result => `• *${result.publisher}*: ${result.detail}${result.url ? ` - ${result.url}` : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * Record the published KBA on the source ticket. Each write-back is
+   * toggled separately and safe to repeat; returns the ones that failed.
+   */
+  private async writeBackToJira(
+    ticketKey: string,
+    pageUrl: string,
+    pageTitle: string,
+    approverName: string
+  ): Promise<string[]> {
+    const errors: string[] = [];
+
+    const attempt = async (action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error: any) {
+        console.error('Jira write-back failed:', error.message);
+        errors.push(describeServiceError(error));
+      }
+    };
+
+    if (process.env.JIRA_WRITEBACK_REMOTE_LINK !== 'false') {
+      await attempt(() => this.jiraService.addRemoteLink(ticketKey, pageUrl, pageTitle));
+    }
+
+    if (process.env.JIRA_WRITEBACK_COMMENT === 'true') {
+      await attempt(() => this.jiraService.addCommentOnce(
+        ticketKey,
+        `Knowledge base article "${pageTitle}" published (approved by ${approverName} via Slack):`,
+        pageUrl
+      ));
+    }
+
+    const label = process.env.JIRA_WRITEBACK_LABEL ?? 'kba-published';
+    if (label) {
+      await attempt(() => this.jiraService.addLabel(ticketKey, label));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Handle change requests
+   */
+  async requestChanges(contextKey: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || context.stage === 'publishing' || context.stage === 'complete') {
+      return;
+    }
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      ':pencil: Please describe what changes you\'d like me to make to the KBA.'
+    );
+
+    context.stage = 'revising';
+    await this.contexts.set(contextKey, context);
+  }
+
+  /**
+   * Apply reviewer feedback to the current draft
+   */
+  async handleRevision(
+    channel: string,
+    threadTs: string,
+    userId: string,
+    feedback: string
+  ): Promise<void> {
+    const contextKey = `${channel}-${threadTs}`;
+    const context = await this.contexts.get(contextKey);
+
+    if (!context || context.stage !== 'revising' || !context.kbaDraft) {
+      return;
+    }
+
+    const { kbaDraft } = context;
+
+    try {
+      const quota = await this.quotaService.reserveGeneration(context.userId, channel);
+      if (!quota.allowed) {
+        context.stage = 'review';
+        await this.contexts.set(contextKey, context);
+        await this.sendMessage(channel, threadTs, `:no_entry: ${quota.reason}`);
+        await this.postReviewActions(contextKey, 'The previous draft is unchanged. What would you like to do?');
+        return;
+      }
+
+      // Edits and feedback may have brought sensitive values back in
+      const redactions = kbaDraft.redactions || [];
+      const previousContent = this.redactionService.redactContent(kbaDraft.content, redactions);
+      const usage: ModelUsage[] = [];
+      let revisedContent: KBAContent | undefined;
+      try {
+        await this.sendMessage(channel, threadTs, ':pencil: Revising the KBA based on your feedback...');
+        revisedContent = await this.modelProvider.refineKBAContent(
+          previousContent,
+          this.redactionService.redactText(feedback, redactions),
+          u => usage.push(u)
+        );
+      } finally {
+        await this.audit(context, 'generation', userId, {
+          ...usageFields(usage),
+          detail: revisedContent ? 'revision' : 'revision failed'
+        });
+        quota.release();
+      }
+
+      // Keep screenshots for steps whose image prompt didn't change, following them to their new number
+      const { renumbered, needingImages: changedSteps } = matchRevisedSteps(previousContent, revisedContent);
+      const changedStepNumbers = new Set(changedSteps.map(s => s.stepNumber));
+      const keptImages = kbaDraft.images
+        .filter(image => renumbered.has(image.stepNumber))
+        .map(image => ({ ...image, stepNumber: renumbered.get(image.stepNumber)! }))
+        .filter(image =>
+          image.source === 'jira' || image.source === 'upload' ||
+          (!changedStepNumbers.has(image.stepNumber) &&
+            revisedContent.steps.some(s => s.stepNumber === image.stepNumber && s.imagePrompt))
+        );
+
+      let newImages: GeneratedImage[] = [];
+      let newFailures: ImageFailure[] = [];
+      const imageQuota = changedSteps.length > 0
+        ? await this.quotaService.reserveImages(context.userId, channel, plannedImages(changedSteps))
+        : undefined;
+      if (imageQuota && !imageQuota.allowed) {
+        await this.sendMessage(channel, threadTs, `:warning: ${imageQuota.reason}`);
+      } else if (imageQuota) {
+        try {
+          const progress = await this.startImageProgress(
+            channel,
+            threadTs,
+            `:art: Regenerating ${plannedImages(changedSteps)} screenshot mockup(s) for changed steps...`
+          );
+          const imageUsage: ModelUsage[] = [];
+          ({ images: newImages, failures: newFailures } = await this.modelProvider.generateImages({
+            ...revisedContent,
+            steps: changedSteps
+          }, u => imageUsage.push(u), progress.onProgress));
+          await progress.finish();
+          newImages = await this.imageCache.cacheImages(newImages);
+          await this.audit(context, 'images_generated', userId, {
+            ...usageFields(imageUsage),
+            images: newImages.length,
+            detail: newFailures.length > 0 ? `${newFailures.length} image(s) failed` : undefined
+          });
+        } finally {
+          imageQuota.release();
+        }
+      }
+
+      // Earlier failures only still matter for steps that weren't regenerated
+      const keptFailures = (kbaDraft.failedImages || [])
+        .filter(failure => renumbered.has(failure.stepNumber))
+        .map(failure => ({ ...failure, stepNumber: renumbered.get(failure.stepNumber)! }))
+        .filter(failure =>
+          !changedStepNumbers.has(failure.stepNumber) &&
+          revisedContent.steps.some(s => s.stepNumber === failure.stepNumber && s.imagePrompt)
+        );
+      const failedImages = [...keptFailures, ...newFailures].sort((a, b) => a.stepNumber - b.stepNumber);
+
+      context.kbaDraft = {
+        ...kbaDraft,
+        content: revisedContent,
+        images: [...keptImages, ...newImages].sort((a, b) => a.stepNumber - b.stepNumber),
+        failedImages,
+        redactions,
+        approvals: []
+      };
+      context.stage = 'review';
+      context.uploadTarget = undefined;
+      await this.contexts.set(contextKey, context);
+
+      const changes = diffKBAContent(previousContent, revisedContent);
+      await this.sendMessage(
+        channel,
+        threadTs,
+        `:memo: *Revision summary* (${changes.length} section(s) changed)\n\n${formatKBADiff(changes)}`
+      );
+
+      await this.uploadImagePreviews(channel, threadTs, newImages);
+
+      if (failedImages.length > 0) {
+        await this.sendMessage(
+          channel,
+          threadTs,
+          `:warning: *Mockups that could not be generated:*\n${formatImageFailures(failedImages)}`
+        );
+      }
+      const uncached = this.uncachedImagesWarning(newImages);
+      if (uncached) {
+        await this.sendMessage(channel, threadTs, uncached);
+      }
+
+      await this.postImageActions(contextKey);
+      await this.postReviewActions(
+        contextKey,
+        ':white_check_mark: *KBA revised!* Please review the changes above.'
+      );
+
+    } catch (error: any) {
+      console.error('Error revising KBA:', error);
+      context.stage = 'review';
+      await this.contexts.set(contextKey, context);
+      await this.sendMessage(channel, threadTs, `:x: Error revising KBA: ${this.describeError(error)}`);
+      await this.postReviewActions(contextKey, 'The previous draft is unchanged. What would you like to do?');
+    }
+  }
+
+  /**
+   * Open the section editor modal for the current draft
+   */
+  async openEditModal(contextKey: string, triggerId: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    await this.app.client.views.open({
+      trigger_id: triggerId,
+      view: buildEditModal(editStateFromContent(contextKey, context.kbaDraft.content))
+    });
+  }
+
+  /**
+   * Add, delete or move a step while the editor modal is open
+   */
+  async updateEditModal(
+    view: ViewOutput,
+    change: 'up' | 'down' | 'delete' | 'add',
+    stepId: string
+  ): Promise<void> {
+    const state = readEditModalState(view);
+    const steps = state.steps;
+    const index = steps.findIndex(step => step.id === stepId);
+    let nextId = state.nextId;
+
+    switch (change) {
+      case 'add':
+        steps.push({ id: `s${nextId++}`, description: '' });
+        break;
+      case 'delete':
+        if (index >= 0) {
+          steps.splice(index, 1);
+        }
+        break;
+      case 'up':
+        if (index > 0) {
+          [steps[index - 1], steps[index]] = [steps[index], steps[index - 1]];
+        }
+        break;
+      case 'down':
+        if (index >= 0 && index < steps.length - 1) {
+          [steps[index], steps[index + 1]] = [steps[index + 1], steps[index]];
+        }
+        break;
+    }
+
+    await this.app.client.views.update({
+      view_id: view.id,
+      hash: view.hash,
+      view: buildEditModal(state, nextId)
+    });
+  }
+
+  /**
+   * Apply a submitted editor modal to the draft and re-render the preview
+   */
+  async applyEdits(view: ViewOutput): Promise<void> {
+    const state = readEditModalState(view);
+    const contextKey = state.contextKey;
+    const context = await this.contexts.get(contextKey);
+    if (!context || !context.kbaDraft || context.stage !== 'review') {
+      return;
+    }
+
+    const { kbaDraft } = context;
+    const previousSteps = kbaDraft.content.steps;
+
+    // Renumber steps in their new order, keeping each step's screenshot settings
+    const renumbered = new Map<number, number>();
+    const steps: KBAStep[] = state.steps.map((step, index) => {
+      const stepNumber = index + 1;
+      const original = previousSteps.find(s => s.stepNumber === step.origin);
+      if (original) {
+        renumbered.set(original.stepNumber, stepNumber);
+      }
+      return {
+        stepNumber,
+        description: step.description,
+        codeSnippet: step.codeSnippet,
+        imagePrompt: original?.imagePrompt,
+        osType: original?.osType
+      };
+    });
+
+    // Steps that didn't fit in the modal follow the edited ones unchanged
+    for (const hiddenStep of previousSteps.filter(s => state.hiddenSteps?.includes(s.stepNumber))) {
+      const stepNumber = steps.length + 1;
+      renumbered.set(hiddenStep.stepNumber, stepNumber);
+      steps.push({ ...hiddenStep, stepNumber });
+    }
+
+    context.kbaDraft = {
+      ...kbaDraft,
+      content: {
+        ...kbaDraft.content,
+        title: state.title,
+        problem: state.problem,
+        solution: state.solution,
+        additionalNotes: state.additionalNotes,
+        sections: kbaDraft.content.sections ? state.sections : undefined,
+        tags: Array.from(new Set(state.tags)),
+        steps
+      },
+      // Images follow their step; deleted steps lose theirs
+      images: kbaDraft.images
+        .filter(image => renumbered.has(image.stepNumber))
+        .map(image => ({ ...image, stepNumber: renumbered.get(image.stepNumber)! }))
+        .sort((a, b) => a.stepNumber - b.stepNumber),
+      failedImages: kbaDraft.failedImages
+        ?.filter(failure => renumbered.has(failure.stepNumber))
+        .map(failure => ({ ...failure, stepNumber: renumbered.get(failure.stepNumber)! })),
+      approvals: []
+    };
+    // Menus and upload requests refer to images by step number
+    context.uploadTarget = undefined;
+    await this.contexts.set(contextKey, context);
+
+    await this.showPreview(
+      contextKey,
+      ':white_check_mark: *KBA updated!* Please review the edited content above.',
+      false
+    );
+  }
+
+  /**
+   * Cancel KBA generation
+   */
+  async cancelKBA(contextKey: string, userId?: string): Promise<void> {
+    const context = await this.contexts.get(contextKey);
+    if (!context) {
+      return;
+    }
+
+    await this.audit(context, 'cancelled', userId || context.userId, { detail: context.stage });
+
+    await this.sendMessage(
+      context.channel,
+      context.threadTs,
+      ':x: KBA generation cancelled.'
+    );
+
+    await this.contexts.delete(contextKey);
+  }
+
+  /**
+   * Append a workflow event for this conversation to the audit log
+   */
+  private async audit(
+    context: ConversationContext,
+    type: AuditEventType,
+    userId: string,
+    details: Partial<AuditEvent> = {}
+  ): Promise<void> {
+    await this.auditLog.append({
+      type,
+      userId,
+      channel: context.channel,
+      ticketKey: context.jiraTicket?.key || '',
+      conversation: `${context.channel}-${context.threadTs}`,
+      requestedBy: context.userId,
+      ...details
+    });
+  }
+
+  /**
+   * Resolve a Slack user ID to a display name for audit messages
+   */
+  private async getUserName(userId: string): Promise<string> {
+    try {
+      const result = await this.app.client.users.info({ user: userId });
+      return result.user?.real_name || result.user?.name || userId;
+    } catch (error) {
+      console.error(`Failed to look up Slack user ${userId}:`, error);
+      return userId;
+    }
+  }
+
+  /**
+   * Turn an error into a message suitable for the thread
+   */
+  private describeError(error: any): string {
+    if (error instanceof ModelOutputError) {
+      const details = error.errors.slice(0, 5).map(e => `• ${e}`).join('\n');
+      return `${error.message}.\n${details}\n\nThe AI model's response could not be repaired automatically. Please try again.`;
+    }
+    return describeServiceError(error);
+  }
+
+  /**
+   * Post a progress message for image generation and return a listener
+   * that edits it in place, batching updates to one per interval
+   */
+  private async startImageProgress(
+    channel: string,
+    threadTs: string,
+    heading: string
+  ): Promise<{ onProgress: ImageProgressListener; finish: () => Promise<void> }> {
+    const message = await this.app.client.chat.postMessage({ channel, thread_ts: threadTs, text: heading });
+    let latest: ImageJobState[] = [];
+    let timer: NodeJS.Timeout | undefined;
+    let updating: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+      timer = undefined;
+      const text = `${heading}\n${formatImageProgress(latest)}`;
+      updating = updating.then(async () => {
+        try {
+          await this.app.client.chat.update({ channel, ts: message.ts!, text });
+        } catch (error: any) {
+          console.error('Failed to update image progress:', error.message);
+        }
+      });
+    };
+
+    return {
+      onProgress: states => {
+        latest = states;
+        if (!timer) {
+          timer = setTimeout(flush, PROGRESS_UPDATE_INTERVAL_MS);
+        }
+      },
+      finish: async () => {
+        clearTimeout(timer);
+        if (latest.length > 0) {
+          flush();
+        }
+        await updating;
+      }
+    };
+  }
+
+  /**
+   * Send a message to Slack
+   */
+  private async sendMessage(channel: string, threadTs: string, text: string): Promise<void> {
+    await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
       text
     });
   }
 
+  /**
+   * List every active conversation
+   */
+  async listContexts(): Promise<[string, ConversationContext][]> {
+    const entries = await this.contexts.entries();
+    return entries.filter(([, context]) => context.stage !== 'complete');
+  }
+
+  /**
+   * Get a link to the thread a conversation is happening in
+   */
+  async getThreadLink(channel: string, threadTs: string): Promise<string | undefined> {
+    try {
+      const result = await this.app.client.chat.getPermalink({
+        channel,
+        message_ts: threadTs
+      });
+      return result.permalink;
+    } catch (error) {
+      console.error('Failed to get thread permalink:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Get context by key
    */
-  getContext(contextKey: string): ConversationContext | undefined {
+  async getContext(contextKey: string): Promise<ConversationContext | undefined> {
     return this.contexts.get(contextKey);
   }
 }